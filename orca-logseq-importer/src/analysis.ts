@@ -0,0 +1,263 @@
+/**
+ * @file analysis.ts
+ * @description
+ * Dry run of an import: walks a parsed graph through the same inline and
+ * property conversion the importer uses, without calling any editor command,
+ * and reports what will not survive the trip to Orca.
+ */
+
+import { assetRelativePath } from "./assets";
+import { parseInline } from "./inline";
+import type { InlineResolver } from "./inline";
+import { collectUnconvertedMacros } from "./macros";
+import type { LogseqBlock, LogseqBlockKind, LogseqGraph, LogseqPage, ParseOptions } from "./parser";
+import { mapProperties, parseMappedProperties } from "./propertyRules";
+import type { PropertyRule } from "./propertyRules";
+import { translateQuery } from "./query";
+
+/** Where in the graph an issue was found. */
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+export interface AnalysisReport {
+  generatedAt: string;
+  pages: number;
+  journals: number;
+  blocks: number;
+  blocksByKind: Record<LogseqBlockKind, number>;
+  tasks: number;
+  cards: number;
+  blockRefs: number;
+  assets: number;
+  danglingRefs: (SourceLocation & { uuid: string })[];
+  missingAssets: (SourceLocation & { path: string })[];
+  unsupported: (SourceLocation & { syntax: string; text: string })[];
+  duplicatePages: { name: string; files: string[] }[];
+  stringifiedProperties: (SourceLocation & { name: string; value: string })[];
+}
+
+// Syntax the importer keeps as plain text.
+const BEGIN_REGEX = /^#\+BEGIN_(\w+)/i;
+const DRAWER_REGEX = /^:([A-Za-z_-]+):$/;
+const TABLE_ROW_REGEX = /^\|.*\|$/;
+const HICCUP_REGEX = /^\[:[a-z]/;
+const SUPPORTED_BEGIN = ["SRC", "QUOTE"];
+const SUPPORTED_DRAWERS = ["END"];
+
+const MARKDOWN_LIST_LIMIT = 500;
+
+function forEachBlock(blocks: LogseqBlock[], fn: (block: LogseqBlock) => void) {
+  for (const block of blocks) {
+    fn(block);
+    forEachBlock(block.children, fn);
+  }
+}
+
+/**
+ * Lists every file under the graph's assets/ folder as a path relative to it.
+ * A graph without the folder, or an export read without it, has no assets.
+ */
+async function listAssetFiles(logseqFolder: FileSystemDirectoryHandle | null): Promise<Set<string>> {
+  const files = new Set<string>();
+  if (!logseqFolder) return files;
+
+  async function recurse(handle: FileSystemDirectoryHandle, prefix: string) {
+    // @ts-ignore
+    for await (const entry of handle.values()) {
+      const path = prefix + entry.name;
+      if (entry.kind === "file") {
+        files.add(path);
+      } else if (entry.kind === "directory") {
+        await recurse(entry, `${path}/`);
+      }
+    }
+  }
+
+  try {
+    await recurse(await logseqFolder.getDirectoryHandle("assets"), "");
+  } catch (e) {
+    console.warn("[Analysis] Could not open 'assets' directory.", e);
+  }
+  return files;
+}
+
+function findUnsupportedSyntax(block: LogseqBlock, page: LogseqPage, report: AnalysisReport) {
+  block.content.split("\n").forEach((line, offset) => {
+    const location = { file: page.file, line: block.line + offset };
+    const trimmed = line.trim();
+    const add = (syntax: string) => report.unsupported.push({ ...location, syntax, text: trimmed });
+
+    for (const macro of collectUnconvertedMacros(trimmed)) {
+      add(`{{${macro.name}}}`);
+    }
+
+    const begin = trimmed.match(BEGIN_REGEX);
+    if (begin && !SUPPORTED_BEGIN.includes(begin[1].toUpperCase())) {
+      add(`#+BEGIN_${begin[1].toUpperCase()}`);
+    }
+    const drawer = trimmed.match(DRAWER_REGEX);
+    if (drawer && !SUPPORTED_DRAWERS.includes(drawer[1].toUpperCase())) {
+      add(`:${drawer[1].toUpperCase()}:`);
+    }
+    if (TABLE_ROW_REGEX.test(trimmed)) add("table");
+    if (HICCUP_REGEX.test(trimmed)) add("hiccup");
+  });
+}
+
+/** Properties the import keeps as text, after the property rules, under their imported names. */
+function findStringifiedProperties(
+  properties: Record<string, any>,
+  location: SourceLocation,
+  options: ParseOptions,
+  rules: PropertyRule[],
+  report: AnalysisReport
+) {
+  for (const { name, raw, parsed } of parseMappedProperties(mapProperties(properties, rules), options)) {
+    if (parsed.kind === "text") {
+      report.stringifiedProperties.push({ ...location, name, value: String(raw) });
+    }
+  }
+}
+
+/**
+ * Analyses a parsed graph the way `importPageBatch` would convert it.
+ */
+export async function analyzeGraph(
+  graph: LogseqGraph,
+  logseqFolder: FileSystemDirectoryHandle | null,
+  options: ParseOptions,
+  propertyRules: PropertyRule[],
+): Promise<AnalysisReport> {
+  const assetFiles = await listAssetFiles(logseqFolder);
+  const report: AnalysisReport = {
+    generatedAt: new Date().toISOString(),
+    pages: graph.pages.size,
+    journals: 0,
+    blocks: 0,
+    blocksByKind: { text: 0, code: 0, quote: 0, math: 0, query: 0, embed: 0 },
+    tasks: 0,
+    cards: 0,
+    blockRefs: 0,
+    assets: 0,
+    danglingRefs: [],
+    missingAssets: [],
+    unsupported: [],
+    duplicatePages: [],
+    stringifiedProperties: [],
+  };
+
+  for (const [key, files] of graph.duplicates) {
+    const name = graph.pages.get(files[0])?.name ?? graph.names.get(key)!;
+    report.duplicatePages.push({ name, files });
+  }
+
+  for (const page of graph.pages.values()) {
+    if (page.journalDay) report.journals++;
+    findStringifiedProperties(page.properties, { file: page.file, line: 1 }, options, propertyRules, report);
+
+    forEachBlock(page.blocks, (block) => {
+      report.blocks++;
+      report.blocksByKind[block.kind]++;
+      if (block.marker) report.tasks++;
+      if (block.card) report.cards++;
+      findStringifiedProperties(block.properties, { file: page.file, line: block.line }, options, propertyRules, report);
+      if (block.kind === "code" || block.kind === "math") return;
+
+      const location = { file: page.file, line: block.line };
+      if (block.kind === "query") {
+        // Every page a query names exists by the time it is inserted.
+        const translation = translateQuery(block.content, {
+          journalTitleFormat: options.journalTitleFormat,
+          pageId: () => 0,
+        });
+        if (!translation.ok) {
+          report.unsupported.push({ ...location, syntax: "query", text: translation.reason });
+        } else {
+          for (const note of translation.notes) {
+            report.unsupported.push({ ...location, syntax: "query (近似)", text: note });
+          }
+        }
+        return;
+      }
+
+      const resolver: InlineResolver = {
+        blockRef: (uuid) => {
+          report.blockRefs++;
+          if (!graph.blocks.has(uuid)) report.danglingRefs.push({ ...location, uuid });
+          return { t: "t", v: "" };
+        },
+        pageRef: () => ({ t: "t", v: "" }),
+        asset: (path) => {
+          report.assets++;
+          const relativePath = assetRelativePath(path);
+          if (relativePath == null) {
+            report.unsupported.push({ ...location, syntax: "local file outside assets/", text: path });
+          } else if (!assetFiles.has(relativePath)) {
+            report.missingAssets.push({ ...location, path });
+          }
+          return { t: "t", v: "" };
+        },
+      };
+      parseInline(block.content, resolver);
+      findUnsupportedSyntax(block, page, report);
+    });
+  }
+
+  return report;
+}
+
+function markdownList<T>(items: T[], format: (item: T) => string): string[] {
+  if (items.length === 0) return ["- 无"];
+  const lines = items.slice(0, MARKDOWN_LIST_LIMIT).map((item) => `- ${format(item)}`);
+  if (items.length > MARKDOWN_LIST_LIMIT) {
+    lines.push(`- ……另有 ${items.length - MARKDOWN_LIST_LIMIT} 项，见 JSON 报告`);
+  }
+  return lines;
+}
+
+const at = (location: SourceLocation) => `\`${location.file}:${location.line}\``;
+
+/**
+ * Renders a report as Markdown. Long lists are cut short; the JSON form of
+ * the report always has every entry.
+ */
+export function reportToMarkdown(report: AnalysisReport): string {
+  const { blocksByKind } = report;
+  return [
+    "# Logseq 导入分析报告",
+    "",
+    `生成时间: ${report.generatedAt}`,
+    "",
+    "## 统计",
+    "",
+    `- 页面: ${report.pages} (其中日志 ${report.journals})`,
+    `- 块: ${report.blocks} (文本 ${blocksByKind.text}, 代码 ${blocksByKind.code}, 引用 ${blocksByKind.quote}, 公式 ${blocksByKind.math}, 查询 ${blocksByKind.query}, 嵌入 ${blocksByKind.embed})`,
+    `- 任务: ${report.tasks}`,
+    `- 闪卡: ${report.cards}`,
+    `- 块引用: ${report.blockRefs}`,
+    `- 附件链接: ${report.assets}`,
+    "",
+    `## 悬空的块引用 (${report.danglingRefs.length})`,
+    "",
+    ...markdownList(report.danglingRefs, (ref) => `${at(ref)} ((${ref.uuid}))`),
+    "",
+    `## 缺失的附件 (${report.missingAssets.length})`,
+    "",
+    ...markdownList(report.missingAssets, (asset) => `${at(asset)} ${asset.path}`),
+    "",
+    `## 不支持的语法 (${report.unsupported.length})`,
+    "",
+    ...markdownList(report.unsupported, (item) => `${at(item)} \`${item.syntax}\`: ${item.text}`),
+    "",
+    `## 重名页面 (${report.duplicatePages.length})`,
+    "",
+    ...markdownList(report.duplicatePages, (dup) => `${dup.name}: ${dup.files.join(", ")}`),
+    "",
+    `## 将作为文本保存的属性 (${report.stringifiedProperties.length})`,
+    "",
+    ...markdownList(report.stringifiedProperties, (prop) => `${at(prop)} ${prop.name}:: ${prop.value}`),
+    "",
+  ].join("\n");
+}
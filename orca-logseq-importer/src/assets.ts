@@ -0,0 +1,228 @@
+/**
+ * @file assets.ts
+ * @description
+ * The asset stage of an import. Before the first batch, every local file the
+ * pages link to is read from the graph's assets/ folder and uploaded once for
+ * the whole run. Files are keyed by content hash, so one file linked from many
+ * pages, or stored twice under different names, is uploaded once, and a file
+ * an earlier run of the graph uploaded is reused. Failed uploads are retried.
+ */
+
+import { collectLocalLinkTargets } from "./inline";
+import type { LogseqBlock, LogseqPage } from "./parser";
+
+export type AssetKind = "image" | "video" | "audio" | "pdf" | "file";
+
+/** Where the uploaded files of a graph are, for the whole run and across runs. */
+export interface AssetStore {
+  paths: Map<string, string>; // Path under assets/ -> uploaded Orca path
+  hashes: Record<string, string>; // SHA-256 of the file -> uploaded Orca path
+}
+
+/** A linked file that was not uploaded, with the path the page links it by. */
+export interface MissingAsset {
+  path: string;
+  page: LogseqPage;
+  reason: "outside" | "notFound"; // Not under assets/, or not in the assets folder
+}
+
+export interface AssetStageResult {
+  uploaded: string[]; // Orca paths of the files uploaded by this stage
+  reused: number; // Files found in the store by their hash
+  missing: MissingAsset[];
+  failed: string[]; // Paths under assets/ that could not be uploaded
+}
+
+const ASSET_KINDS: [RegExp, AssetKind][] = [
+  [/\.(png|jpe?g|gif|svg|webp|bmp|avif)$/i, "image"],
+  [/\.(mp4|webm|mov|m4v|ogv|mkv)$/i, "video"],
+  [/\.(mp3|m4a|wav|ogg|oga|flac|aac|opus)$/i, "audio"],
+  [/\.pdf$/i, "pdf"],
+];
+
+const UPLOAD_CHUNK_SIZE = 20;
+const UPLOAD_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+
+export function assetKind(path: string): AssetKind {
+  const file = path.replace(/[?#].*$/, "");
+  return ASSET_KINDS.find(([regex]) => regex.test(file))?.[1] ?? "file";
+}
+
+/**
+ * The path under the graph's assets/ folder a link points at, or null for a
+ * file outside it. Logseq writes `../assets/a.png`, but links may also read
+ * `assets/a.png`, `./assets/sub/a.png`, `file:///…/graph/assets/a.png` or
+ * be percent-encoded; a `#page=` or `?` suffix is not part of the file.
+ */
+export function assetRelativePath(path: string): string | null {
+  let file = path.trim().replace(/^file:\/\//i, "").replace(/[?#].*$/, "").replace(/\\/g, "/");
+  try {
+    file = decodeURI(file);
+  } catch {
+    // A lone "%" in a file name; the name is used as written.
+  }
+  const match = file.match(/(?:^|\/)assets\/(.+)$/);
+  if (!match) return null;
+  const segments = match[1].split("/").filter((segment) => segment && segment !== ".");
+  return segments.length > 0 && !segments.includes("..") ? segments.join("/") : null;
+}
+
+/** The `#page=3` or `?t=10` suffix of a link, which the uploaded path keeps. */
+export function assetSuffix(path: string): string {
+  return path.match(/[?#].*$/)?.[0] ?? "";
+}
+
+/**
+ * Lists the local files the pages link to, each with the first page that
+ * links it, under the path as written.
+ */
+export function collectAssetLinks(pages: LogseqPage[]): Map<string, LogseqPage> {
+  const links = new Map<string, LogseqPage>();
+  const visit = (blocks: LogseqBlock[], page: LogseqPage) => {
+    for (const block of blocks) {
+      if (block.kind === "text" || block.kind === "quote") {
+        for (const { path } of collectLocalLinkTargets(block.content)) {
+          if (!links.has(path)) links.set(path, page);
+        }
+      }
+      visit(block.children, page);
+    }
+  };
+  for (const page of pages) {
+    visit(page.blocks, page);
+    if (page.pdf && !links.has(page.pdf)) links.set(page.pdf, page);
+  }
+  return links;
+}
+
+/**
+ * Opens a file under assets/, which may sit in a subfolder such as the
+ * assets/<pdf name>/ folder of PDF area highlights.
+ */
+async function getAssetFile(assetsFolder: FileSystemDirectoryHandle, relativePath: string): Promise<File> {
+  const segments = relativePath.split("/");
+  let folder = assetsFolder;
+  for (const segment of segments.slice(0, -1)) {
+    folder = await folder.getDirectoryHandle(segment);
+  }
+  const fileHandle = await folder.getFileHandle(segments[segments.length - 1], { create: false });
+  return fileHandle.getFile();
+}
+
+async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Uploads one file, retrying with a growing delay. Returns its Orca path, or null. */
+async function uploadFile(file: File): Promise<string | null> {
+  for (let attempt = 1; attempt <= UPLOAD_ATTEMPTS; attempt++) {
+    try {
+      const result = await orca.invokeBackend("upload-assets", [file]);
+      const path = result?.uploaded?.[0]?.path;
+      if (path) return path;
+    } catch (e) {
+      console.warn(`[Assets] Upload of ${file.name} failed (attempt ${attempt}/${UPLOAD_ATTEMPTS}).`, e);
+    }
+    if (attempt < UPLOAD_ATTEMPTS) await delay(RETRY_DELAY_MS * attempt);
+  }
+  return null;
+}
+
+/**
+ * Uploads files in chunks. A chunk that comes back whole is matched to its
+ * files by position; otherwise its files are uploaded one by one, with
+ * retries, so no path is paired with the wrong file.
+ */
+async function uploadFiles(files: File[], onProgress: (done: number) => void): Promise<(string | null)[]> {
+  const paths: (string | null)[] = [];
+  for (let i = 0; i < files.length; i += UPLOAD_CHUNK_SIZE) {
+    const chunk = files.slice(i, i + UPLOAD_CHUNK_SIZE);
+    let uploaded: { path: string }[] | undefined;
+    try {
+      const result = await orca.invokeBackend("upload-assets", chunk);
+      if (result?.uploaded?.length === chunk.length && !result.failed?.length) uploaded = result.uploaded;
+    } catch (e) {
+      console.warn("[Assets] Chunk upload failed, retrying file by file.", e);
+    }
+    for (let j = 0; j < chunk.length; j++) {
+      paths.push(uploaded ? uploaded[j].path : await uploadFile(chunk[j]));
+    }
+    onProgress(paths.length);
+  }
+  return paths;
+}
+
+/**
+ * Uploads the files the pages link to that the store does not hold yet and
+ * adds them to the store. Links outside assets/ and files the folder does
+ * not have are reported as missing.
+ */
+export async function uploadGraphAssets(
+  pages: LogseqPage[],
+  logseqFolder: FileSystemDirectoryHandle | null,
+  store: AssetStore,
+  onProgress: (done: number, total: number) => void = () => {},
+): Promise<AssetStageResult> {
+  const result: AssetStageResult = { uploaded: [], reused: 0, missing: [], failed: [] };
+
+  // Path under assets/ -> first link to it
+  const wanted = new Map<string, { path: string; page: LogseqPage }>();
+  for (const [path, page] of collectAssetLinks(pages)) {
+    const relativePath = assetRelativePath(path);
+    if (relativePath == null) result.missing.push({ path, page, reason: "outside" });
+    else if (!store.paths.has(relativePath) && !wanted.has(relativePath)) wanted.set(relativePath, { path, page });
+  }
+  if (wanted.size === 0) return result;
+
+  let assetsFolder: FileSystemDirectoryHandle | null = null;
+  try {
+    assetsFolder = logseqFolder ? await logseqFolder.getDirectoryHandle("assets") : null;
+  } catch (e) {
+    console.warn("[Assets] Could not open 'assets' directory.", e);
+  }
+  if (!assetsFolder) {
+    for (const link of wanted.values()) result.missing.push({ ...link, reason: "notFound" });
+    return result;
+  }
+
+  // Files with the same content share one upload.
+  const byHash = new Map<string, { file: File; paths: string[] }>();
+  for (const [relativePath, link] of wanted) {
+    let file: File;
+    try {
+      file = await getAssetFile(assetsFolder, relativePath);
+    } catch (e) {
+      console.warn(`[Assets] Asset file not found and skipped: ${relativePath}`, e);
+      result.missing.push({ ...link, reason: "notFound" });
+      continue;
+    }
+    const hash = await hashFile(file);
+    const known = store.hashes[hash];
+    if (known) {
+      store.paths.set(relativePath, known);
+      result.reused++;
+      continue;
+    }
+    const entry = byHash.get(hash);
+    if (entry) entry.paths.push(relativePath);
+    else byHash.set(hash, { file, paths: [relativePath] });
+  }
+
+  const uploads = [...byHash.entries()];
+  const uploadedPaths = await uploadFiles(uploads.map(([, { file }]) => file), (done) => onProgress(done, uploads.length));
+  uploads.forEach(([hash, { paths }], i) => {
+    const uploadedPath = uploadedPaths[i];
+    if (!uploadedPath) {
+      result.failed.push(...paths);
+      return;
+    }
+    store.hashes[hash] = uploadedPath;
+    paths.forEach((path) => store.paths.set(path, uploadedPath));
+    result.uploaded.push(uploadedPath);
+  });
+  return result;
+}
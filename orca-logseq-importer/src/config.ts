@@ -0,0 +1,87 @@
+/**
+ * @file config.ts
+ * @description
+ * Reads `logseq/config.edn` from the selected graph folder and turns the
+ * settings the importer cares about into ParseOptions, so journals, hidden
+ * folders and properties are read the way the user's Logseq reads them.
+ */
+
+import { parseEdn } from "./edn";
+import type { EdnValue } from "./edn";
+import type { MacroDefinitions } from "./macros";
+import { DEFAULT_PARSE_OPTIONS } from "./parser";
+import type { ParseOptions } from "./parser";
+
+// Spaces per indent level for the values of :export/bullet-indentation.
+const BULLET_INDENTATION: Record<string, number> = {
+  tab: 2,
+  "two-spaces": 2,
+  "four-spaces": 4,
+};
+
+const stringOf = (value: EdnValue | undefined): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+const stringsOf = (value: EdnValue | undefined): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+/** The `:macros` map; keys may be written as strings or keywords. */
+const macrosOf = (value: EdnValue | undefined): MacroDefinitions =>
+  value && typeof value === "object" && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string"))
+    : {};
+
+/**
+ * Maps the settings of a parsed config.edn onto ParseOptions. Settings the
+ * file does not set keep their default; a graph with a config file enables
+ * property pages unless it turns them off, as Logseq does.
+ */
+export function configToParseOptions(config: EdnValue): ParseOptions {
+  const options: ParseOptions = { ...DEFAULT_PARSE_OPTIONS };
+  if (!config || typeof config !== "object" || Array.isArray(config)) return options;
+
+  options.journalFileNameFormat = stringOf(config["journal/file-name-format"]) ?? options.journalFileNameFormat;
+  options.journalTitleFormat = stringOf(config["journal/page-title-format"]) ?? options.journalTitleFormat;
+
+  const format = stringOf(config["preferred-format"])?.toLowerCase();
+  if (format === "org" || format === "markdown") options.preferredFormat = format;
+
+  const indentation = stringOf(config["export/bullet-indentation"]);
+  if (indentation && BULLET_INDENTATION[indentation]) options.tabWidth = BULLET_INDENTATION[indentation];
+
+  options.hiddenPaths = [...options.hiddenPaths, ...stringsOf(config.hidden)];
+  options.hiddenProperties = stringsOf(config["block-hidden-properties"]);
+  options.ignoredRefProperties = stringsOf(config["ignored-page-references-keywords"]);
+  options.listProperties = [...options.listProperties, ...stringsOf(config["property/separated-by-commas"])];
+  options.propertyPages = config["property-pages/enabled?"] !== false;
+  options.propertyPagesExcluded = stringsOf(config["property-pages/excludelist"]);
+  options.macros = macrosOf(config.macros);
+
+  return options;
+}
+
+/**
+ * Loads the parse options of a graph folder. A graph without a readable
+ * config.edn, or an export read without its folder, is parsed with the defaults.
+ */
+export async function loadParseOptions(logseqFolder: FileSystemDirectoryHandle | null): Promise<ParseOptions> {
+  if (!logseqFolder) return { ...DEFAULT_PARSE_OPTIONS };
+
+  let text: string;
+  try {
+    const configFolder = await logseqFolder.getDirectoryHandle("logseq");
+    const file = await (await configFolder.getFileHandle("config.edn")).getFile();
+    text = await file.text();
+  } catch {
+    console.warn("[Config] No logseq/config.edn in the graph, using default settings.");
+    return { ...DEFAULT_PARSE_OPTIONS };
+  }
+
+  try {
+    return configToParseOptions(parseEdn(text));
+  } catch (e) {
+    console.warn("[Config] Could not read logseq/config.edn, using default settings.", e);
+    orca.notify("warn", "无法解析 logseq/config.edn，将使用默认设置。");
+    return { ...DEFAULT_PARSE_OPTIONS };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * @file edn.ts
+ * @description
+ * A small reader for EDN, the data format of Logseq's `config.edn`. Maps
+ * become plain objects keyed by the keyword name without its colon
+ * (`:journal/page-title-format` -> "journal/page-title-format"), vectors,
+ * lists and sets become arrays, keywords and symbols become strings and
+ * `nil` becomes null. Tagged values such as `#inst "..."` keep their value.
+ */
+
+export type EdnValue =
+  | null
+  | boolean
+  | number
+  | string
+  | EdnValue[]
+  | { [key: string]: EdnValue };
+
+const DELIMITERS = "()[]{}\"; \t\r\n,";
+
+/**
+ * Parses the first value of an EDN document.
+ * Throws an Error with the offset when the text is not valid EDN.
+ */
+export function parseEdn(text: string): EdnValue {
+  let i = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`EDN: ${message} (offset ${i})`);
+  };
+
+  const skipSpace = () => {
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === ";") {
+        while (i < text.length && text[i] !== "\n") i++;
+      } else if (" \t\r\n,".includes(ch)) {
+        i++;
+      } else if (ch === "#" && text[i + 1] === "_") {
+        // #_ discards the next value
+        i += 2;
+        readValue();
+      } else {
+        return;
+      }
+    }
+  };
+
+  const readToken = (): string => {
+    const start = i;
+    while (i < text.length && !DELIMITERS.includes(text[i])) i++;
+    return text.substring(start, i);
+  };
+
+  const readString = (): string => {
+    i++; // opening quote
+    let value = "";
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === "\\") {
+        const next = text[++i];
+        value += next === "n" ? "\n" : next === "t" ? "\t" : next === "r" ? "\r" : next;
+        i++;
+      } else {
+        value += text[i++];
+      }
+    }
+    if (i >= text.length) fail("unterminated string");
+    i++; // closing quote
+    return value;
+  };
+
+  const readSeq = (close: string): EdnValue[] => {
+    i++; // opening bracket
+    const items: EdnValue[] = [];
+    for (;;) {
+      skipSpace();
+      if (i >= text.length) fail(`missing "${close}"`);
+      if (text[i] === close) {
+        i++;
+        return items;
+      }
+      items.push(readValue());
+    }
+  };
+
+  const readValue = (): EdnValue => {
+    skipSpace();
+    if (i >= text.length) fail("unexpected end of input");
+    const ch = text[i];
+
+    switch (ch) {
+      case '"':
+        return readString();
+      case "(":
+        return readSeq(")");
+      case "[":
+        return readSeq("]");
+      case "{": {
+        const items = readSeq("}");
+        if (items.length % 2 !== 0) fail("map with an odd number of forms");
+        const map: { [key: string]: EdnValue } = {};
+        for (let k = 0; k < items.length; k += 2) {
+          map[String(items[k])] = items[k + 1];
+        }
+        return map;
+      }
+      case "#": {
+        if (text[i + 1] === "{") {
+          i++;
+          return readSeq("}");
+        }
+        if (text[i + 1] === '"') {
+          i++;
+          return readString(); // regex literal, kept as its source
+        }
+        i++;
+        readToken(); // tag such as #inst, the tagged value follows
+        return readValue();
+      }
+      case ")":
+      case "]":
+      case "}":
+        return fail(`unexpected "${ch}"`);
+    }
+
+    if (ch === "\\") {
+      i++;
+      return readToken() || text[i++]; // character literal
+    }
+
+    const token = readToken();
+    if (!token) fail(`unexpected "${ch}"`);
+    if (token === "nil") return null;
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (/^[+-]?\d+(\.\d+)?([eE][+-]?\d+)?M?N?$/.test(token)) return parseFloat(token);
+    return token.startsWith(":") ? token.substring(1) : token;
+  };
+
+  return readValue();
+}
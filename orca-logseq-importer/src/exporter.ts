@@ -0,0 +1,586 @@
+/**
+ * @file exporter.ts
+ * @description
+ * Exports Orca pages back into a Logseq graph folder, so a migration is not
+ * a one-way door. The block tree of each page (`get-block-tree`) is written
+ * as a Markdown page of `- ` bullets with `key:: value` properties; refs
+ * become `[[page]]` and `((uuid))`, and referenced blocks get an `id::`.
+ * Assets the pages use are copied to `assets/`.
+ *
+ * Block and inline types go through `orca.converters` first: a plugin that
+ * registers a converter for the "logseq" format decides how its blocks are
+ * written. Types without one use the built-in conversion below, then the
+ * "markdown" converters.
+ */
+
+import { isExternalUrl } from "./inline";
+import {
+  DEFAULT_JOURNAL_FILE_NAME_FORMAT,
+  DEFAULT_JOURNAL_TITLE_FORMAT,
+  formatJournalDate,
+  parseJournalDate,
+} from "./journal";
+import type { Block, BlockProperty, BlockRef, ContentFragment, DbId, Repr } from "./orca.d";
+import { CARD_FIELDS, CARD_TAG, PropType, TASK_MARKERS, TASK_TAG } from "./properties";
+import { COLLAPSED_PROPERTY, COLOR_PROPERTY } from "./propertyRules";
+import { queryRefIds, queryToLogseq } from "./query";
+
+/** The converter format plugins register to control how their types are exported. */
+export const LOGSEQ_FORMAT = "logseq";
+
+const REF_TYPE_PROPERTY = 2; // RefType.Property, which tags are attached with
+const INDENT = "\t";
+const CONTINUATION = "  "; // Lines of a block after its bullet
+const SECTION_START_REGEX = /^(```|\$\$|#\+BEGIN_)/;
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const FETCH_CHUNK_SIZE = 500;
+const TWEET_URL_REGEX = /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\//i;
+
+/** What the user picked to export. */
+export interface ExportSelection {
+  pageNames: string[]; // Page aliases or journal dates
+  tags: string[]; // Every block with one of these tags becomes a page
+}
+
+export interface ExportResult {
+  pages: number;
+  blocks: number;
+  assets: number;
+  warnings: string[];
+}
+
+interface TreeNode {
+  block: Block;
+  repr: Repr;
+  children: TreeNode[];
+}
+
+/**
+ * State of one export run.
+ */
+interface ExportContext {
+  blocks: Map<DbId, Block>; // Exported blocks and the targets of their refs
+  exported: Set<DbId>;
+  uuids: Map<DbId, string>; // Blocks written with an id::
+  assets: Map<string, string>; // Orca asset path -> file name under assets/
+  warnings: string[];
+}
+
+function reprOf(block: Block): Repr {
+  return block.properties?.find((property) => property.name === "_repr")?.value ?? { type: "text" };
+}
+
+function journalDateOf(block: Block): Date | null {
+  const repr = reprOf(block);
+  return repr.type === "journal" && repr.date != null ? new Date(repr.date) : null;
+}
+
+/** The Logseq page a block stands for: its first alias, or its journal day. */
+function pageNameOf(block: Block): string | undefined {
+  if (block.aliases?.length > 0) return block.aliases[0];
+  const date = journalDateOf(block);
+  return date ? formatJournalDate(date, DEFAULT_JOURNAL_TITLE_FORMAT) : undefined;
+}
+
+const plainText = (content: ContentFragment[] | undefined): string =>
+  (content ?? []).map((fragment) => String(fragment.v ?? "")).join("");
+
+async function fetchBlocks(ids: DbId[]): Promise<Block[]> {
+  const blocks: Block[] = [];
+  for (let i = 0; i < ids.length; i += FETCH_CHUNK_SIZE) {
+    const chunk: (Block | null)[] = await orca.invokeBackend("get-blocks", ids.slice(i, i + FETCH_CHUNK_SIZE));
+    blocks.push(...(chunk ?? []).filter((block): block is Block => block != null));
+  }
+  return blocks;
+}
+
+/**
+ * Finds the blocks to export: pages by alias or journal date, and every
+ * block carrying one of the tags.
+ */
+async function findRoots(selection: ExportSelection, ctx: ExportContext): Promise<DbId[]> {
+  const ids: DbId[] = [];
+  for (const name of selection.pageNames) {
+    const iso = name.match(ISO_DATE_REGEX);
+    const date = iso
+      ? new Date(parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]))
+      : parseJournalDate(name, DEFAULT_JOURNAL_TITLE_FORMAT);
+    const id: DbId | undefined = date
+      ? (await orca.invokeBackend("get-journal-block", date))?.id
+      : (await orca.invokeBackend("get-blockid-by-alias", name))?.id;
+    if (id == null) ctx.warnings.push(`找不到页面: ${name}`);
+    else ids.push(id);
+  }
+  for (const tag of selection.tags) {
+    const blocks: Block[] = (await orca.invokeBackend("get-blocks-with-tags", [tag])) ?? [];
+    if (blocks.length === 0) ctx.warnings.push(`没有带标签 "${tag}" 的块`);
+    ids.push(...blocks.map((block) => block.id));
+  }
+  return Array.from(new Set(ids));
+}
+
+/** A node of what `get-block-tree` returns: a block, or a block with its children. */
+type RawTreeNode = Block | { block: Block; children: (DbId | RawTreeNode)[] };
+
+/**
+ * Normalises what `get-block-tree` returns: children may come as nested
+ * blocks or as IDs, which are fetched.
+ */
+async function toTreeNode(raw: RawTreeNode): Promise<TreeNode> {
+  const block = "block" in raw ? raw.block : raw;
+  const items: (DbId | RawTreeNode)[] = Array.isArray(raw.children) ? raw.children : [];
+  const ids = items.filter((item): item is DbId => typeof item !== "object");
+  const children = ids.length > 0
+    ? await fetchBlocks(ids)
+    : items.filter((item): item is RawTreeNode => typeof item === "object");
+  const node: TreeNode = { block, repr: reprOf(block), children: [] };
+  for (const child of children) {
+    node.children.push(await toTreeNode(child));
+  }
+  return node;
+}
+
+function forEachNode(nodes: TreeNode[], fn: (node: TreeNode) => void) {
+  for (const node of nodes) {
+    fn(node);
+    forEachNode(node.children, fn);
+  }
+}
+
+/** Tags of a block; property refs named after one of its properties are not tags. */
+function tagRefs(block: Block): BlockRef[] {
+  return (block.refs ?? []).filter(
+    (ref) => ref.type === REF_TYPE_PROPERTY && !block.properties?.some((property) => property.name === ref.alias)
+  );
+}
+
+/**
+ * Loads every block a ref points at, so refs can be written as page names,
+ * and gives the exported blocks that are referenced a UUID: the Logseq one
+ * they were imported with, or a new one.
+ */
+async function resolveRefTargets(roots: TreeNode[], importedUuids: Map<DbId, string>, ctx: ExportContext) {
+  const targets = new Set<DbId>();
+  forEachNode(roots, ({ block, repr }) => {
+    for (const fragment of block.content ?? []) {
+      if (fragment.t === "r" && fragment.id != null) targets.add(fragment.id);
+    }
+    for (const property of block.properties ?? []) {
+      if (property.type === PropType.BlockRefs && Array.isArray(property.value)) {
+        property.value.forEach((id: DbId) => targets.add(id));
+      }
+    }
+    tagRefs(block).forEach((ref) => targets.add(ref.to));
+    if (repr.type === "query" && repr.q) queryRefIds(repr.q).forEach((id) => targets.add(id));
+    if (repr.type === "mirror" && repr.mirrorId != null) targets.add(repr.mirrorId);
+  });
+
+  const missing = [...targets].filter((id) => !ctx.blocks.has(id));
+  for (const block of await fetchBlocks(missing)) {
+    ctx.blocks.set(block.id, block);
+  }
+
+  for (const id of targets) {
+    const block = ctx.blocks.get(id);
+    if (!block || !ctx.exported.has(id) || pageNameOf(block)) continue;
+    ctx.uuids.set(id, importedUuids.get(id) ?? crypto.randomUUID());
+  }
+}
+
+/** A file under assets/ for an Orca asset; the `#page=` part of a PDF link stays on the link. */
+function assetLink(path: string, ctx: ExportContext): string {
+  const hashIndex = path.indexOf("#");
+  const file = hashIndex >= 0 ? path.substring(0, hashIndex) : path;
+  const hash = hashIndex >= 0 ? path.substring(hashIndex) : "";
+
+  let name = ctx.assets.get(file);
+  if (!name) {
+    const base = file.split(/[\\/]/).pop() || "asset";
+    const dot = base.lastIndexOf(".");
+    const stem = dot > 0 ? base.substring(0, dot) : base;
+    const ext = dot > 0 ? base.substring(dot) : "";
+    const taken = new Set(ctx.assets.values());
+    name = base;
+    for (let n = 1; taken.has(name); n++) name = `${stem}_${n}${ext}`;
+    ctx.assets.set(file, name);
+  }
+  return `../assets/${name}${hash}`;
+}
+
+function refText(id: DbId, ctx: ExportContext): string | null {
+  const target = ctx.blocks.get(id);
+  const name = target && pageNameOf(target);
+  if (name) return `[[${name}]]`;
+  const uuid = ctx.uuids.get(id);
+  return uuid ? `((${uuid}))` : null;
+}
+
+const tagText = (name: string) => (/[\s#,()[\]]/.test(name) ? `#[[${name}]]` : `#${name}`);
+
+// Innermost first, so `**[link](url)**` nests the way Logseq writes it.
+const FORMAT_MARKERS: [string, string][] = [["h", "=="], ["s", "~~"], ["i", "*"], ["b", "**"]];
+
+function styledText(fragment: ContentFragment, ctx: ExportContext): string {
+  const formats = String(fragment.f ?? "").split(",").filter(Boolean);
+  const [, lead, core, trail] = String(fragment.v ?? "").match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (!core) return lead + trail;
+
+  let text = core;
+  if (formats.includes("c")) {
+    const ticks = text.includes("`") ? "``" : "`";
+    text = `${ticks}${text}${ticks}`;
+  }
+  for (const [format, marker] of FORMAT_MARKERS) {
+    // A cloze is highlighted in Orca; the macro says so in Logseq.
+    if (format === "h" && fragment.fa?.cloze) continue;
+    if (formats.includes(format)) text = `${marker}${text}${marker}`;
+  }
+  const link: string | undefined = fragment.fa?.l;
+  if (formats.includes("l") && link) {
+    text = `[${text}](${isExternalUrl(link) ? link : assetLink(link, ctx)})`;
+  }
+  if (fragment.fa?.cloze) text = `{{cloze ${text}}}`;
+  return lead + text + trail;
+}
+
+async function fragmentText(fragment: ContentFragment, ctx: ExportContext): Promise<string> {
+  if (orca.state.inlineConverters[LOGSEQ_FORMAT]?.[fragment.t]) {
+    return orca.converters.inlineConvert(LOGSEQ_FORMAT, fragment.t, fragment);
+  }
+
+  switch (fragment.t) {
+    case "t":
+      return styledText(fragment, ctx);
+    case "r": {
+      if (fragment.id == null) return `[[${fragment.v}]]`; // A page ref by name
+      const text = refText(fragment.id, ctx);
+      if (text) return text;
+      ctx.warnings.push(`引用的块 ${fragment.id} 不在导出范围内，已导出为文本`);
+      return String(fragment.v ?? "");
+    }
+    case "math":
+      return `$${fragment.v}$`;
+    case "i": {
+      const size = fragment.w || fragment.h
+        ? `{:width ${fragment.w ?? "auto"} :height ${fragment.h ?? "auto"}}`
+        : "";
+      return `![${fragment.a ?? ""}](${assetLink(String(fragment.v), ctx)})${size}`;
+    }
+    case "video":
+    case "audio":
+      if (isExternalUrl(String(fragment.v))) return `{{video ${fragment.v}}}`;
+      // Logseq plays media embedded with image syntax.
+      return `![${fragment.a ?? ""}](${assetLink(String(fragment.v), ctx)})`;
+    case "web":
+      return TWEET_URL_REGEX.test(String(fragment.v)) ? `{{tweet ${fragment.v}}}` : `{{video ${fragment.v}}}`;
+  }
+
+  if (orca.state.inlineConverters.markdown?.[fragment.t]) {
+    return orca.converters.inlineConvert("markdown", fragment.t, fragment);
+  }
+  ctx.warnings.push(`未知的行内内容 "${fragment.t}"，已按纯文本导出`);
+  return String(fragment.v ?? "");
+}
+
+async function inlineText(content: ContentFragment[] | undefined, ctx: ExportContext): Promise<string> {
+  const parts: string[] = [];
+  for (const fragment of content ?? []) {
+    parts.push(await fragmentText(fragment, ctx));
+  }
+  return parts.join("");
+}
+
+/**
+ * An Orca query block as a Logseq query: a simple query, or an advanced one
+ * when the block has a title. Queries `queryToLogseq` cannot write are kept
+ * as their JSON description.
+ */
+function queryText(block: Block, repr: Repr, ctx: ExportContext): string {
+  const query = repr.q
+    ? queryToLogseq(repr.q, (id) => {
+        const target = ctx.blocks.get(id);
+        return target && pageNameOf(target);
+      }, DEFAULT_JOURNAL_TITLE_FORMAT)
+    : null;
+  if (query == null) {
+    ctx.warnings.push(`查询块 ${block.id} 无法写成 Logseq 查询，已导出为 JSON`);
+    return "```json\n" + JSON.stringify(repr.q ?? null, null, 2) + "\n```";
+  }
+  const title = plainText(block.content).trim();
+  return title
+    ? `#+BEGIN_QUERY\n{:title ${JSON.stringify(title)}\n :query ${query}}\n#+END_QUERY`
+    : `{{query ${query}}}`;
+}
+
+/** The content of a block, without its properties, as Logseq Markdown. */
+async function blockBody(node: TreeNode, ctx: ExportContext): Promise<string> {
+  const { block, repr } = node;
+  const content = block.content ?? [];
+  if (orca.state.blockConverters[LOGSEQ_FORMAT]?.[repr.type]) {
+    return orca.converters.blockConvert(LOGSEQ_FORMAT, { content }, repr, block, true);
+  }
+
+  switch (repr.type) {
+    case "text":
+      return inlineText(content, ctx);
+    case "heading":
+      return `${"#".repeat(repr.level ?? 1)} ${await inlineText(content, ctx)}`;
+    case "code":
+      return "```" + (repr.lang ?? "") + "\n" + plainText(content) + "\n```";
+    case "math":
+      return `$$\n${plainText(content)}\n$$`;
+    case "quote":
+      return (await inlineText(content, ctx)).split("\n").map((line) => `> ${line}`).join("\n");
+    case "query":
+      return queryText(block, repr, ctx);
+    case "mirror": {
+      // A mirror of a block outside the export keeps the ref it shows.
+      const target = repr.mirrorId != null ? refText(repr.mirrorId, ctx) : null;
+      return target ? `{{embed ${target}}}` : inlineText(content, ctx);
+    }
+  }
+
+  if (orca.state.blockConverters.markdown?.[repr.type]) {
+    return orca.converters.blockConvert("markdown", { content }, repr, block, true);
+  }
+  ctx.warnings.push(`块 ${block.id} 的类型 "${repr.type}" 没有转换器，已按文本导出`);
+  return inlineText(content, ctx);
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** A Logseq planning stamp, e.g. `<2024-03-15 Fri>` or `<2024-03-15 Fri 09:30>`. */
+function planningStamp(value: string | number | Date): string {
+  const date = new Date(value);
+  const time = date.getHours() || date.getMinutes() ? ` ${pad(date.getHours())}:${pad(date.getMinutes())}` : "";
+  return `<${formatJournalDate(date, "yyyy-MM-dd EEE")}${time}>`;
+}
+
+function propertyText(property: BlockProperty, ctx: ExportContext): string {
+  const { value } = property;
+  switch (property.type) {
+    case PropType.BlockRefs:
+      return (Array.isArray(value) ? value : [])
+        .map((id: DbId) => refText(id, ctx))
+        .filter((text): text is string => text != null)
+        .join(", ");
+    case PropType.DateTime:
+      return value == null ? "" : `[[${formatJournalDate(new Date(value), DEFAULT_JOURNAL_TITLE_FORMAT)}]]`;
+    case PropType.TextChoices:
+      return Array.isArray(value) ? value.join(", ") : String(value ?? "");
+    case PropType.JSON:
+      return JSON.stringify(value);
+    default:
+      return String(value ?? "").replace(/\r?\n/g, " ");
+  }
+}
+
+/** A tag data value; choices are stored as a list. */
+const firstValue = (value: unknown): unknown => (Array.isArray(value) ? value[0] : value);
+
+/** The `card-*` properties of a flashcard, from the review state on its card tag. */
+function cardProperties(ref: BlockRef): string[] {
+  const properties: string[] = [];
+  for (const { name, property } of Object.values(CARD_FIELDS)) {
+    const value = firstValue(ref.data?.find((item) => item.name === name)?.value);
+    if (typeof value === "number") properties.push(`${property}:: ${value}`);
+    else if (value instanceof Date || (typeof value === "string" && value)) {
+      properties.push(`${property}:: ${new Date(value).toISOString()}`);
+    }
+  }
+  return properties;
+}
+
+/**
+ * The lines of one block: its content with the task marker and tags on
+ * the first line, then its properties, planning stamps and clock history.
+ */
+async function blockLines(node: TreeNode, ctx: ExportContext): Promise<string[]> {
+  const { block } = node;
+  let prefix = "";
+  const tags: string[] = [];
+  const properties: string[] = [];
+  const planning: string[] = [];
+  let logbook: string[] = [];
+
+  for (const ref of tagRefs(block)) {
+    const target = ctx.blocks.get(ref.to);
+    const name = (target && pageNameOf(target)) ?? ref.alias;
+    if (!name) continue;
+    if (name === CARD_TAG) properties.push(...cardProperties(ref));
+    if (name !== TASK_TAG) {
+      tags.push(tagText(name));
+      continue;
+    }
+    const data = (field: string) => ref.data?.find((item) => item.name === field)?.value;
+    prefix = `${TASK_MARKERS[String(firstValue(data("Status")))] ?? "TODO"} `;
+    const priority = firstValue(data("Priority"));
+    if (priority) prefix += `[#${priority}] `;
+    if (data("Scheduled")) planning.push(`SCHEDULED: ${planningStamp(data("Scheduled"))}`);
+    if (data("Deadline")) planning.push(`DEADLINE: ${planningStamp(data("Deadline"))}`);
+  }
+
+  for (const property of block.properties ?? []) {
+    if (property.name === COLLAPSED_PROPERTY && property.value === true) properties.push("collapsed:: true");
+    if (property.name === COLOR_PROPERTY && property.value) properties.push(`background-color:: ${property.value}`);
+    if (property.name.startsWith("_") || property.value == null) continue;
+    if (property.name === "logbook") {
+      logbook = [":LOGBOOK:", ...String(property.value).split("\n"), ":END:"];
+    } else if ((property.name === "scheduled" || property.name === "deadline") && property.type === PropType.DateTime) {
+      planning.push(`${property.name.toUpperCase()}: ${planningStamp(property.value)}`);
+    } else {
+      properties.push(`${property.name}:: ${propertyText(property, ctx)}`);
+    }
+  }
+  const uuid = ctx.uuids.get(block.id);
+  if (uuid) properties.push(`id:: ${uuid}`);
+
+  const body = (await blockBody(node, ctx)).split("\n");
+  const head = [prefix.trim(), ...tags].filter(Boolean).join(" ");
+  const meta = [...properties, ...planning, ...logbook];
+  if (SECTION_START_REGEX.test(body[0])) {
+    // A code, math or query section keeps its opening line to itself.
+    return head ? [head, ...meta, ...body] : [...body, ...meta];
+  }
+  const first = [prefix + body[0], ...tags].filter(Boolean).join(" ");
+  return [first, ...meta, ...body.slice(1)];
+}
+
+async function writeBlocks(nodes: TreeNode[], depth: number, out: string[], ctx: ExportContext): Promise<number> {
+  let count = 0;
+  const indent = INDENT.repeat(depth);
+  for (const node of nodes) {
+    const [first, ...rest] = await blockLines(node, ctx);
+    out.push(`${indent}- ${first}`, ...rest.map((line) => `${indent}${CONTINUATION}${line}`));
+    count += 1 + (await writeBlocks(node.children, depth + 1, out, ctx));
+  }
+  return count;
+}
+
+/**
+ * Writes a page. A page or journal block becomes the page itself, with its
+ * aliases, tags and properties as page properties and its children as the
+ * top-level blocks. Any other block (one found by tag) is written whole as
+ * the only top-level block of a page named after its text.
+ */
+async function pageText(root: TreeNode, ctx: ExportContext): Promise<{ text: string; blocks: number }> {
+  const { block } = root;
+  const lines: string[] = [];
+  if (!pageNameOf(block)) {
+    const blocks = await writeBlocks([root], 0, lines, ctx);
+    return { text: lines.join("\n") + "\n", blocks };
+  }
+
+  const aliases = block.aliases.slice(journalDateOf(block) ? 0 : 1);
+  if (aliases.length > 0) lines.push(`alias:: ${aliases.map((alias) => `[[${alias}]]`).join(", ")}`);
+  const tags = tagRefs(block)
+    .map((ref) => {
+      const target = ctx.blocks.get(ref.to);
+      return (target && pageNameOf(target)) ?? ref.alias;
+    })
+    .filter((name): name is string => !!name && name !== TASK_TAG);
+  if (tags.length > 0) lines.push(`tags:: ${tags.map((tag) => `[[${tag}]]`).join(", ")}`);
+  for (const property of block.properties ?? []) {
+    if (property.name.startsWith("_") || property.value == null) continue;
+    lines.push(`${property.name}:: ${propertyText(property, ctx)}`);
+  }
+  if (lines.length > 0) lines.push("");
+
+  const blocks = await writeBlocks(root.children, 0, lines, ctx);
+  return { text: lines.join("\n") + "\n", blocks };
+}
+
+/**
+ * Where a page goes: journals/yyyy_MM_dd.md for a journal day, otherwise
+ * pages/ with `/` written as `___` and characters file systems reject
+ * percent-encoded, as Logseq names its files.
+ */
+function pageFilePath(root: TreeNode): { folder: string; file: string } {
+  const date = journalDateOf(root.block);
+  if (date) return { folder: "journals", file: `${formatJournalDate(date, DEFAULT_JOURNAL_FILE_NAME_FORMAT)}.md` };
+
+  const name = pageNameOf(root.block) ?? (plainText(root.block.content).trim().substring(0, 60) || `block-${root.block.id}`);
+  const safe = name
+    .replace(/\//g, "___")
+    .replace(/[<>:"\\|?*%\n]/g, (ch) => `%${ch.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`);
+  return { folder: "pages", file: `${safe}.md` };
+}
+
+async function writeFile(folder: FileSystemDirectoryHandle, subfolder: string, name: string, data: string | Blob) {
+  const target = await folder.getDirectoryHandle(subfolder, { create: true });
+  const fileHandle = await target.getFileHandle(name, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(data);
+  await writable.close();
+}
+
+async function copyAssets(folder: FileSystemDirectoryHandle, ctx: ExportContext): Promise<number> {
+  let copied = 0;
+  for (const [path, name] of ctx.assets) {
+    try {
+      const response = await fetch(orca.utils.getAssetPath(path));
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      await writeFile(folder, "assets", name, await response.blob());
+      copied++;
+    } catch (e) {
+      console.warn(`[Exporter] Could not copy asset ${path}`, e);
+      ctx.warnings.push(`附件复制失败: ${path}`);
+    }
+  }
+  return copied;
+}
+
+/**
+ * Exports the selected pages into a Logseq graph folder.
+ *
+ * @param selection Pages and tags to export.
+ * @param folder The graph folder; pages/, journals/ and assets/ are created in it.
+ * @param importedUuids Logseq UUIDs of imported blocks, reused for their `id::`.
+ */
+export async function exportToLogseq(
+  selection: ExportSelection,
+  folder: FileSystemDirectoryHandle,
+  importedUuids: Map<DbId, string>,
+): Promise<ExportResult> {
+  const ctx: ExportContext = {
+    blocks: new Map(),
+    exported: new Set(),
+    uuids: new Map(),
+    assets: new Map(),
+    warnings: [],
+  };
+
+  const roots: TreeNode[] = [];
+  for (const id of await findRoots(selection, ctx)) {
+    if (ctx.exported.has(id)) continue; // Already inside an exported page
+    const tree = await orca.invokeBackend("get-block-tree", id);
+    if (!tree) {
+      ctx.warnings.push(`无法读取块 ${id}`);
+      continue;
+    }
+    const root = await toTreeNode(tree);
+    forEachNode([root], ({ block }) => {
+      ctx.blocks.set(block.id, block);
+      ctx.exported.add(block.id);
+    });
+    roots.push(root);
+  }
+  await resolveRefTargets(roots, importedUuids, ctx);
+
+  const written = new Set<string>();
+  let blocks = 0;
+  for (const root of roots) {
+    const page = await pageText(root, ctx);
+    const { folder: subfolder, file: fileName } = pageFilePath(root);
+    let file = fileName;
+    for (let n = 2; written.has(`${subfolder}/${file}`); n++) {
+      file = file.replace(/( \(\d+\))?\.md$/, ` (${n}).md`);
+    }
+    written.add(`${subfolder}/${file}`);
+    await writeFile(folder, subfolder, file, page.text);
+    blocks += page.blocks;
+  }
+
+  const assets = await copyAssets(folder, ctx);
+  return { pages: roots.length, blocks, assets, warnings: ctx.warnings };
+}
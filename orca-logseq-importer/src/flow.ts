@@ -0,0 +1,51 @@
+/**
+ * @file flow.ts
+ * @description
+ * Flow control for the editor commands that insert blocks. Each insert is
+ * timed, and how many blocks go into the next one follows the rate the
+ * backend has been managing, so a command takes about the same time on a
+ * fast machine and a slow one. Between commands the run waits for the
+ * renderer to be idle instead of sleeping for a fixed time, so Orca keeps
+ * drawing and taking input while a large graph goes in.
+ */
+
+export interface FlowControl {
+  readonly blockBudget: number; // Blocks to send with the next insert
+  run<T>(blocks: number, fn: () => Promise<T>): Promise<T>;
+}
+
+const TARGET_COMMAND_MS = 500;
+const INITIAL_BUDGET = 300;
+const MIN_BUDGET = 50;
+const MAX_BUDGET = 5000;
+const SMOOTHING = 0.3; // Weight of the latest command in the measured rate
+const IDLE_TIMEOUT_MS = 1000;
+
+function waitForIdle(): Promise<void> {
+  return new Promise((resolve) => {
+    if (typeof requestIdleCallback === "function") requestIdleCallback(() => resolve(), { timeout: IDLE_TIMEOUT_MS });
+    else setTimeout(resolve, 0);
+  });
+}
+
+export function createFlowControl(): FlowControl {
+  let budget = INITIAL_BUDGET;
+  let rate: number | null = null; // Blocks per millisecond
+
+  return {
+    get blockBudget() {
+      return budget;
+    },
+    async run(blocks, fn) {
+      const start = performance.now();
+      const result = await fn();
+      const ms = Math.max(performance.now() - start, 1);
+      if (blocks > 0) {
+        rate = rate == null ? blocks / ms : rate * (1 - SMOOTHING) + (blocks / ms) * SMOOTHING;
+        budget = Math.min(Math.max(Math.round(rate * TARGET_COMMAND_MS), MIN_BUDGET), MAX_BUDGET);
+      }
+      await waitForIdle();
+      return result;
+    },
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * @file graphExport.ts
+ * @description
+ * Input adapter for Logseq's "Export graph" JSON and EDN files, the only way
+ * out of the DB-based Logseq. It builds the same pages as the folder
+ * parsers, so asset upload and the import are shared. The export carries the
+ * hierarchy and block UUIDs itself: blocks are nested as `children`, or flat
+ * with `parent` and `left`/`order` refs, and journals have a journal-day.
+ * Only the content of each block goes through the Markdown (or Org) block
+ * reader, for task markers, property lines and code sections.
+ */
+
+import { parseEdn } from "./edn";
+import type { EdnValue } from "./edn";
+import { formatJournalDate, journalDayToDate, parseJournalDate, toJournalDay } from "./journal";
+import { readOrgBlocks } from "./org";
+import { finishPage, newBlock, readMarkdownBlocks } from "./parser";
+import type { LogseqBlock, LogseqFile, LogseqPage, LogseqTaskMarker, ParseOptions } from "./parser";
+
+type Entity = { [key: string]: EdnValue };
+
+/** A block of the export with its children in order. */
+interface ExportBlock {
+  entity: Entity;
+  children: ExportBlock[];
+}
+
+interface ExportPage {
+  entity: Entity;
+  blocks: ExportBlock[];
+}
+
+// Attributes appear bare in the JSON export and namespaced in EDN.
+const NAMESPACES = ["", "block/", "build/"];
+
+// DB graphs keep task state in built-in properties, e.g. :logseq.property/status.todo.
+const STATUS_PROPERTY = "logseq.property/status";
+const PRIORITY_PROPERTY = "logseq.property/priority";
+const STATUS_MARKERS: Record<string, LogseqTaskMarker> = {
+  backlog: "TODO",
+  todo: "TODO",
+  doing: "DOING",
+  "in-review": "DOING",
+  done: "DONE",
+  canceled: "CANCELED",
+};
+const PRIORITIES: Record<string, "A" | "B" | "C"> = { urgent: "A", high: "A", medium: "B", low: "C" };
+const USER_PROPERTY_PREFIX = "user.property/";
+
+const isEntity = (value: EdnValue | undefined): value is Entity =>
+  value != null && typeof value === "object" && !Array.isArray(value);
+
+function field(entity: Entity, ...names: string[]): EdnValue | undefined {
+  for (const name of names) {
+    for (const namespace of NAMESPACES) {
+      const value = entity[namespace + name];
+      if (value != null) return value;
+    }
+  }
+  return undefined;
+}
+
+function pageName(entity: Entity): string | undefined {
+  const name = field(entity, "original-name", "title", "page-name", "name");
+  return typeof name === "string" && name.trim() ? name.trim() : undefined;
+}
+
+/**
+ * Keys a ref can point at an entity by: its `db/id` number or its UUID.
+ * Refs are a number, a UUID, a `{:db/id n}` map or a `[:block/uuid #uuid "..."]`
+ * lookup.
+ */
+function refKey(ref: EdnValue): string | null {
+  if (typeof ref === "number") return `db:${ref}`;
+  if (typeof ref === "string") return `uuid:${ref}`;
+  if (Array.isArray(ref) && ref.length === 2) return refKey(ref[1]);
+  if (isEntity(ref)) return ref["db/id"] != null ? refKey(ref["db/id"]) : refKey(field(ref, "uuid") ?? null);
+  return null;
+}
+
+function entityKeys(entity: Entity): string[] {
+  const keys: string[] = [];
+  if (typeof entity["db/id"] === "number") keys.push(`db:${entity["db/id"]}`);
+  const uuid = field(entity, "uuid", "id");
+  if (typeof uuid === "string") keys.push(`uuid:${uuid}`);
+  return keys;
+}
+
+/**
+ * Orders the children of a block: by their fractional `order` index when
+ * every sibling has one, otherwise along the `left` chain, which starts at
+ * the sibling whose left is the parent. Siblings off the chain keep their
+ * place in the file at the end.
+ */
+function sortSiblings(parent: Entity, siblings: Entity[]): Entity[] {
+  if (siblings.length < 2) return siblings;
+  if (siblings.every((sibling) => typeof field(sibling, "order") === "string")) {
+    return [...siblings].sort((a, b) => (String(field(a, "order")) < String(field(b, "order")) ? -1 : 1));
+  }
+
+  const parentKeys = new Set(entityKeys(parent));
+  const byLeft = new Map<string, Entity>();
+  for (const sibling of siblings) {
+    const left = refKey(field(sibling, "left") ?? null);
+    if (left) byLeft.set(left, sibling);
+  }
+
+  const sorted: Entity[] = [];
+  let current = siblings.find((sibling) => {
+    const left = refKey(field(sibling, "left") ?? null);
+    return left == null || parentKeys.has(left);
+  });
+  while (current && !sorted.includes(current)) {
+    sorted.push(current);
+    current = entityKeys(current).map((key) => byLeft.get(key)).find((next) => next != null);
+  }
+  return [...sorted, ...siblings.filter((sibling) => !sorted.includes(sibling))];
+}
+
+/** Rebuilds the page trees of an export that lists every entity on its own. */
+function flatPages(entities: Entity[]): ExportPage[] {
+  const byKey = new Map<string, Entity>();
+  for (const entity of entities) {
+    entityKeys(entity).forEach((key) => byKey.set(key, entity));
+  }
+
+  const children = new Map<Entity, Entity[]>();
+  const pages: Entity[] = [];
+  for (const entity of entities) {
+    const parentKey = refKey(field(entity, "parent") ?? null);
+    const parent = parentKey ? byKey.get(parentKey) : undefined;
+    if (parent) {
+      const siblings = children.get(parent) ?? [];
+      siblings.push(entity);
+      children.set(parent, siblings);
+    } else if (field(entity, "page") == null && pageName(entity)) {
+      pages.push(entity);
+    }
+  }
+
+  const tree = (parent: Entity): ExportBlock[] =>
+    sortSiblings(parent, children.get(parent) ?? []).map((entity) => ({ entity, children: tree(entity) }));
+  return pages.map((entity) => ({ entity, blocks: tree(entity) }));
+}
+
+function nestedBlocks(items: EdnValue | undefined): ExportBlock[] {
+  if (!Array.isArray(items)) return [];
+  return items.filter(isEntity).map((entity) => ({ entity, children: nestedBlocks(field(entity, "children")) }));
+}
+
+/**
+ * Finds the pages of an export: the `:pages-and-blocks` of a DB graph
+ * export, or the page list of the JSON/EDN export, nested or flat.
+ */
+function exportPages(data: EdnValue): ExportPage[] {
+  if (isEntity(data) && Array.isArray(data["pages-and-blocks"])) {
+    return data["pages-and-blocks"]
+      .filter(isEntity)
+      .filter((item) => isEntity(item.page))
+      .map((item) => ({ entity: item.page as Entity, blocks: nestedBlocks(item.blocks) }));
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : isEntity(data)
+      ? [data.blocks, data.pages, data.entities].find(Array.isArray)
+      : undefined;
+  if (!items) throw new Error("无法识别的 Logseq 导出文件格式");
+
+  const entities = items.filter(isEntity);
+  if (entities.some((entity) => field(entity, "parent") != null)) return flatPages(entities);
+  return entities.map((entity) => ({ entity, blocks: nestedBlocks(field(entity, "children") ?? entity.blocks) }));
+}
+
+/** Writes a property value back as Logseq text; sets of pages become `[[refs]]`. */
+function propertyText(value: EdnValue): string {
+  const refText = (item: EdnValue): string => {
+    if (typeof item === "string") return `[[${item}]]`;
+    if (Array.isArray(item) && item.length === 2 && typeof item[0] === "string") return refText(item[1]);
+    const name = isEntity(item) ? pageName(item) : undefined;
+    return name ? `[[${name}]]` : JSON.stringify(item);
+  };
+  if (Array.isArray(value)) return value.map(refText).join(", ");
+  if (isEntity(value)) return refText(value);
+  return String(value);
+}
+
+/**
+ * The user properties of an entity. Built-in `logseq.*` and `block/*`
+ * attributes are left out; DB graphs prefix user properties with
+ * `user.property/`, which is dropped.
+ */
+function propertiesOf(entity: Entity): Record<string, string> {
+  const properties: Record<string, string> = {};
+  const raw = field(entity, "properties");
+  if (!isEntity(raw)) return properties;
+  for (const [key, value] of Object.entries(raw)) {
+    const name = key.startsWith(USER_PROPERTY_PREFIX) ? key.substring(USER_PROPERTY_PREFIX.length) : key;
+    if (value == null || name === "id" || name.startsWith("logseq.") || name.includes("/")) continue;
+    properties[name] = propertyText(value);
+  }
+  return properties;
+}
+
+function readDbTask(entity: Entity, block: LogseqBlock) {
+  const raw = field(entity, "properties");
+  const source = isEntity(raw) ? { ...entity, ...raw } : entity;
+  const status = source[STATUS_PROPERTY];
+  if (typeof status === "string" && !block.marker) {
+    const marker = STATUS_MARKERS[status.split(".").pop()!];
+    if (marker) block.marker = marker;
+  }
+  const priority = source[PRIORITY_PROPERTY];
+  if (typeof priority === "string" && !block.priority) {
+    const value = PRIORITIES[priority.split(".").pop()!];
+    if (value) block.priority = value;
+  }
+}
+
+function setLevels(blocks: LogseqBlock[], level: number) {
+  for (const block of blocks) {
+    block.level = level;
+    setLevels(block.children, level + 1);
+  }
+}
+
+/**
+ * Converts an export block and its children. The content is read as a
+ * one-bullet file, so the block gets the same markers, properties and
+ * sections as a block of a Markdown page.
+ */
+function toBlock(exportBlock: ExportBlock, level: number, options: ParseOptions): LogseqBlock {
+  const { entity } = exportBlock;
+  const content = String(field(entity, "content", "title") ?? "");
+  const scratch: LogseqPage = { name: "", file: "", properties: {}, blocks: [], aliases: [], tags: [] };
+  if (field(entity, "format") === "org") {
+    readOrgBlocks(`* ${content.replace(/^\*+\s+/, "")}`, scratch);
+  } else {
+    readMarkdownBlocks(content.split("\n").map((line, i) => (i === 0 ? `- ${line}` : `  ${line}`)).join("\n"), scratch, options);
+  }
+
+  const block = scratch.blocks[0] ?? newBlock(level, 0);
+  setLevels([block], level);
+  const uuid = field(entity, "uuid", "id");
+  if (typeof uuid === "string") block.id = uuid;
+  for (const [name, value] of Object.entries(propertiesOf(entity))) {
+    if (!(name in block.properties)) block.properties[name] = value;
+  }
+  readDbTask(entity, block);
+
+  for (const child of exportBlock.children) {
+    block.children.push(toBlock(child, level + 1, options));
+  }
+  return block;
+}
+
+/** The export has no source lines, so a block's line is its position in the page. */
+function numberBlocks(blocks: LogseqBlock[], counter = { line: 0 }) {
+  for (const block of blocks) {
+    block.line = ++counter.line;
+    numberBlocks(block.children, counter);
+  }
+}
+
+function toPage(exportPage: ExportPage, exportName: string, options: ParseOptions): LogseqPage | null {
+  const { entity } = exportPage;
+  const name = pageName(entity);
+  if (!name) return null;
+
+  const page: LogseqPage = {
+    name,
+    file: `${exportName}/${name}`,
+    properties: propertiesOf(entity),
+    blocks: [],
+    aliases: [],
+    tags: [],
+  };
+  const journalDay = field(entity, "journal-day");
+  const journalDate = typeof journalDay === "number"
+    ? journalDayToDate(journalDay)
+    : field(entity, "journal?") === true ? parseJournalDate(name, options.journalTitleFormat) : null;
+  if (journalDate) {
+    page.journalDay = toJournalDay(journalDate);
+    page.name = formatJournalDate(journalDate, options.journalTitleFormat);
+  }
+
+  for (const exportBlock of exportPage.blocks) {
+    const block = toBlock(exportBlock, 0, options);
+    if (field(exportBlock.entity, "pre-block?") === true) {
+      // Logseq's page property block; the export lists it as the first block.
+      Object.assign(page.properties, block.properties);
+      continue;
+    }
+    page.blocks.push(block);
+  }
+  numberBlocks(page.blocks);
+
+  return finishPage(page, options);
+}
+
+/**
+ * Parses a Logseq graph export (`.json` or `.edn`) into its pages, which
+ * buildGraph indexes. Throws an Error when the file is not a graph export.
+ */
+export function parseLogseqExport(file: LogseqFile, options: ParseOptions): LogseqPage[] {
+  const data: EdnValue = /\.json$/i.test(file.path) ? JSON.parse(file.content) : parseEdn(file.content);
+  const pages: LogseqPage[] = [];
+  for (const exportPage of exportPages(data)) {
+    const page = toPage(exportPage, file.path, options);
+    if (page) pages.push(page);
+  }
+  return pages;
+}
@@ -0,0 +1,84 @@
+/**
+ * @file graphLoader.ts
+ * @description
+ * Loads the graph the user picked. Files are read and parsed in a Web Worker
+ * and stream back as pages; only indexing them into a LogseqGraph happens on
+ * the main thread. Where a worker cannot be started, the same reader runs on
+ * the main thread and yields between chunks.
+ */
+
+import { readGraph } from "./graphReader";
+import type { ParsedChunk, ParseRequest, ParseResponse } from "./graphReader";
+import { buildGraph, isHiddenPath, isPageFile } from "./parser";
+import type { GraphSource, LogseqGraph, LogseqPage, ParseOptions } from "./parser";
+import ParseWorker from "./parseWorker?worker&inline";
+
+export interface LoadedGraph {
+  graph: LogseqGraph;
+  hashes: Map<string, string>; // Page file -> SHA-256 of its source, for the manifest
+  unreadable: string[]; // Page files that could not be read
+}
+
+/** Runs a parse request in a worker. Rejects when the worker fails or cannot start. */
+function parseInWorker(request: ParseRequest, onChunk: (chunk: ParsedChunk) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const worker = new ParseWorker();
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const response = event.data;
+      if (response.type === "chunk") {
+        onChunk(response.chunk);
+        return;
+      }
+      worker.terminate();
+      if (response.type === "done") resolve();
+      else reject(new Error(response.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Parse worker failed"));
+    };
+    worker.postMessage(request);
+  });
+}
+
+const yieldToUi = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * The page files a graph folder holds, without the hidden ones.
+ */
+export function pageFilesOf(source: GraphSource, options: ParseOptions): string[] {
+  return source.files.filter((path) => isPageFile(path) && !isHiddenPath(path, options));
+}
+
+/** Reads and parses a graph source. */
+export async function loadGraph(source: GraphSource, options: ParseOptions): Promise<LoadedGraph> {
+  const request: ParseRequest = {
+    folder: source.folder,
+    paths: pageFilesOf(source, options),
+    exportFile: source.exportFile,
+    options,
+  };
+  let pages: LogseqPage[] = [];
+  let hashes = new Map<string, string>();
+  let unreadable: string[] = [];
+  const collect = (chunk: ParsedChunk) => {
+    pages.push(...chunk.pages);
+    chunk.hashes.forEach(([path, hash]) => hashes.set(path, hash));
+    unreadable.push(...chunk.unreadable);
+  };
+
+  try {
+    await parseInWorker(request, collect);
+  } catch (e) {
+    // A worker that failed partway is started over on the main thread.
+    console.warn("[Loader] Parse worker unavailable, parsing on the main thread.", e);
+    pages = [];
+    hashes = new Map();
+    unreadable = [];
+    await readGraph(request, async (chunk) => {
+      collect(chunk);
+      await yieldToUi();
+    });
+  }
+  return { graph: buildGraph(pages), hashes, unreadable };
+}
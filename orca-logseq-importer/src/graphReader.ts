@@ -0,0 +1,124 @@
+/**
+ * @file graphReader.ts
+ * @description
+ * Reads and parses a graph one file at a time, straight from the folder
+ * handle, so a large graph is never held in memory as text. It runs in the
+ * parse worker, or on the main thread when no worker can be started. Pages
+ * come out in chunks, with the content hash of their source for the manifest
+ * and the inline content of their blocks already converted to fragments,
+ * whose refs and assets the importer resolves.
+ */
+
+import { parseLogseqExport } from "./graphExport";
+import { deferredPageRefs, deferredResolver, parseInline } from "./inline";
+import { hashContent } from "./manifest";
+import { parsePageFile } from "./parser";
+import type { LogseqBlock, LogseqPage, ParseOptions } from "./parser";
+
+/** What to parse: page files of a graph folder, or a graph export. */
+export interface ParseRequest {
+  folder: FileSystemDirectoryHandle | null;
+  paths: string[]; // Page files under the folder
+  exportFile: File | null; // Read instead of the page files
+  options: ParseOptions;
+}
+
+export interface ParsedChunk {
+  pages: LogseqPage[];
+  hashes: [string, string][]; // Page file -> SHA-256 of its source
+  unreadable: string[]; // Files that could not be read
+}
+
+/** Messages from the parse worker: chunks as they are parsed, then done or error. */
+export type ParseResponse =
+  | { type: "chunk"; chunk: ParsedChunk }
+  | { type: "done" }
+  | { type: "error"; message: string };
+
+const CHUNK_SIZE = 100; // Pages per chunk
+
+async function readFileText(folder: FileSystemDirectoryHandle, path: string): Promise<string> {
+  const segments = path.split("/");
+  let current = folder;
+  for (const segment of segments.slice(0, -1)) {
+    current = await current.getDirectoryHandle(segment);
+  }
+  const file = await (await current.getFileHandle(segments[segments.length - 1])).getFile();
+  return file.text();
+}
+
+/** Converts the inline content of text and quote blocks ahead of the import. */
+function convertInline(blocks: LogseqBlock[]) {
+  for (const block of blocks) {
+    if (block.kind === "text" || block.kind === "quote") {
+      block.fragments = parseInline(block.content, deferredResolver);
+      block.pageRefs = deferredPageRefs(block.fragments);
+    }
+    convertInline(block.children);
+  }
+}
+
+function emptyChunk(): ParsedChunk {
+  return { pages: [], hashes: [], unreadable: [] };
+}
+
+/**
+ * Reads and parses the page files of a graph folder. `onChunk` gets every
+ * CHUNK_SIZE pages; the next file is read once it returns.
+ */
+export async function readGraphFiles(
+  folder: FileSystemDirectoryHandle,
+  paths: string[],
+  options: ParseOptions,
+  onChunk: (chunk: ParsedChunk) => void | Promise<void>,
+) {
+  let chunk = emptyChunk();
+  for (let i = 0; i < paths.length; i++) {
+    const path = paths[i];
+    try {
+      const content = await readFileText(folder, path);
+      const page = parsePageFile({ path, content }, options);
+      convertInline(page.blocks);
+      chunk.pages.push(page);
+      chunk.hashes.push([path, await hashContent(content)]);
+    } catch (e) {
+      console.warn(`[Reader] Could not read ${path}`, e);
+      chunk.unreadable.push(path);
+    }
+    if (chunk.pages.length + chunk.unreadable.length >= CHUNK_SIZE || i === paths.length - 1) {
+      await onChunk(chunk);
+      chunk = emptyChunk();
+    }
+  }
+}
+
+/**
+ * Parses a graph export. The export is one file, read whole; its pages are
+ * hashed as parsed, before their blocks get fragments, and handed on in chunks.
+ */
+export async function readGraphExport(
+  file: File,
+  options: ParseOptions,
+  onChunk: (chunk: ParsedChunk) => void | Promise<void>,
+) {
+  const pages = parseLogseqExport({ path: file.name, content: await file.text() }, options);
+  for (let i = 0; i < pages.length; i += CHUNK_SIZE) {
+    const chunk = emptyChunk();
+    for (const page of pages.slice(i, i + CHUNK_SIZE)) {
+      const { properties, aliases, tags, blocks } = page;
+      chunk.hashes.push([page.file, await hashContent(JSON.stringify({ properties, aliases, tags, blocks }))]);
+      convertInline(page.blocks);
+      chunk.pages.push(page);
+    }
+    await onChunk(chunk);
+  }
+}
+
+/** Runs a parse request, in the worker or on the main thread. */
+export async function readGraph(request: ParseRequest, onChunk: (chunk: ParsedChunk) => void | Promise<void>) {
+  if (request.exportFile) {
+    await readGraphExport(request.exportFile, request.options, onChunk);
+  } else if (request.folder) {
+    await readGraphFiles(request.folder, request.paths, request.options, onChunk);
+  }
+}
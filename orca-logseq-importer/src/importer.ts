@@ -1,185 +1,684 @@
-import type { Block, ContentFragment, Repr } from "./orca.d";
-import type { LogseqBlock, LogseqGraph, LogseqPage } from "./parser";
+import { assetKind, assetRelativePath, assetSuffix, uploadGraphAssets } from "./assets";
+import type { AssetStore } from "./assets";
+import { collectPageRefs, parseInline, resolveDeferred } from "./inline";
+import type { InlineResolver } from "./inline";
+import { journalDayToDate, parseJournalDate, toJournalDay } from "./journal";
+import type { Block, BlockProperty, ContentFragment, DbId, Repr } from "./orca.d";
+import { pageKey } from "./parser";
+import type { LogseqBlock, LogseqEmbed, LogseqGraph, LogseqPage, ParseOptions } from "./parser";
+import { collectUnconvertedMacros } from "./macros";
+import { CARD_FIELDS, CARD_TAG, PropType, TASK_STATUS, TASK_TAG } from "./properties";
+import type { ParsedPropertyValue } from "./properties";
+import { COLLAPSED_PROPERTY, COLOR_PROPERTY, DEFAULT_PROPERTY_RULES, mapProperties, parseMappedProperties } from "./propertyRules";
+import type { MappedProperties, NativeBlockProperties, PropertyRule } from "./propertyRules";
+import type { ImportProgress } from "./progress";
+import { queryPageRefs, translateQuery } from "./query";
+import type { CollisionStrategy, ImportSession } from "./session";
+import { createFlowControl } from "./flow";
+import type { FlowControl } from "./flow";
+import { createStepTimes } from "./timing";
+import type { StepTimes } from "./timing";
 
-// More specific regex to avoid capturing unintended parts.
-const ATTACHMENT_REGEX = /(!?\[(.*?)\]\((.*?)\))\s*(\{:(.*?)\})?/;
+const BLOCK_REF_REGEX = /\(\(([0-9a-f-]{36})\)\)/g;
+const MIRROR_REPR_TYPE = "mirror"; // Orca's mirror block, shown as the block it mirrors
+const HEADING_MARK_REGEX = /^#{1,6}\s+/;
 
 /**
- * Pre-scans all pages to find local asset paths and uploads them to Orca.
- * Creates a mapping from old local paths to new Orca paths.
+ * A block inserted during the first pass whose block refs, page links or
+ * ref properties pointed at blocks that did not exist in Orca yet. Its
+ * content and properties are rewritten in the second pass.
  */
-async function preUploadAssetsAndGetPathMap(
-  pagesToImport: LogseqPage[],
-  logseqFolder: FileSystemDirectoryHandle,
-): Promise<Map<string, string>> {
-  const assetPathMap = new Map<string, string>();
-  const allAssetPaths = new Set<string>();
-
-  const collectPaths = (blocks: LogseqBlock[]) => {
-    for(const block of blocks) {
-        for (const match of block.content.matchAll(new RegExp(ATTACHMENT_REGEX, 'g'))) {
-            const localPath = match[3];
-            if (localPath.startsWith('../assets/')) {
-                allAssetPaths.add(localPath);
-            }
-        }
-        if(block.children.length > 0) {
-            collectPaths(block.children);
-        }
+interface PendingRefBlock {
+  dbId: DbId;
+  block: LogseqBlock | null; // null for a page block, only its properties are rewritten
+  page: LogseqPage;
+  properties: Record<string, any>;
+}
+
+/**
+ * Where an earlier run put a page that is imported again. Its page block is
+ * reused so refs to the page keep working; its old content is replaced.
+ */
+export interface PreviousImport {
+  pageBlockId: DbId;
+  rootIds: DbId[]; // Top-level blocks inserted by that run
+  shared: boolean; // Only rootIds are the import's; the page block holds other content too
+}
+
+/**
+ * What happened to one page of a batch.
+ */
+export interface PageImportResult {
+  page: LogseqPage;
+  pageBlockId: DbId | null; // null when the page already existed in Orca and was skipped
+  rootIds: DbId[]; // Top-level blocks inserted under the page block
+  shared: boolean; // The page block existed before: a journal day or a merged or overwritten page
+  error?: string;
+}
+
+/**
+ * A page of the graph whose name or one of its aliases is already a page
+ * in Orca.
+ */
+export interface PageCollision {
+  page: LogseqPage;
+  existingId: DbId;
+  matchedName: string; // The name or alias found in Orca
+}
+
+/**
+ * Something the user should know about after the run: content that could
+ * not be converted faithfully.
+ */
+export interface ImportLogEntry {
+  level: "info" | "warn" | "error";
+  page: string;
+  file: string;
+  line?: number;
+  message: string;
+}
+
+/**
+ * State shared by every batch of one import run.
+ */
+export interface ImportContext {
+  graph: LogseqGraph;
+  logseqFolder: FileSystemDirectoryHandle | null; // Holds assets/; null for an export read without its folder
+  options: ParseOptions;
+  propertyRules: PropertyRule[]; // From the plugin settings
+  journalBlockIds: Map<number, DbId>; // journal day (yyyymmdd) -> Orca journal block
+  blockIds: Map<string, DbId>; // Logseq block UUID -> Orca block
+  pageIds: Map<string, DbId>; // pageKey(page name or alias) -> Orca page block
+  pendingRefBlocks: PendingRefBlock[];
+  namespacePages: { name: string; dbId: DbId }[]; // Created pages named `a/b`, tagged with their parent at the end
+  assets: AssetStore; // Uploaded files, filled by importGraphAssets before the first batch
+  previousImports: Map<LogseqPage, PreviousImport>;
+  collisionStrategy: CollisionStrategy; // For collisions without a decision of their own
+  collisionDecisions: Map<string, CollisionStrategy>; // Page file -> strategy picked in the review
+  skippedNames: Set<string>; // pageKey of pages skipped for a collision, so files of the same name are too
+  session: ImportSession; // Where pages go, and what this run created
+  log: ImportLogEntry[];
+  progress: ImportProgress | null; // The progress dialog of the run, whose cancel stops it between pages
+  times: StepTimes; // Time spent in each step, logged at the end of the run
+  flow: FlowControl; // Paces the insert commands
+}
+
+export function createImportContext(
+  graph: LogseqGraph,
+  logseqFolder: FileSystemDirectoryHandle | null,
+  options: ParseOptions,
+  session: ImportSession,
+): ImportContext {
+  return {
+    graph,
+    logseqFolder,
+    options,
+    propertyRules: DEFAULT_PROPERTY_RULES,
+    journalBlockIds: new Map(),
+    blockIds: new Map(),
+    pageIds: new Map(),
+    pendingRefBlocks: [],
+    namespacePages: [],
+    assets: { paths: new Map(), hashes: {} },
+    previousImports: new Map(),
+    collisionStrategy: "skip",
+    collisionDecisions: new Map(),
+    skippedNames: new Set(),
+    session,
+    log: [],
+    progress: null,
+    times: createStepTimes(),
+    flow: createFlowControl(),
+  };
+}
+
+/** A block from Orca's block cache, or from the backend when it is not loaded. */
+async function getBlock(id: DbId): Promise<Block | null> {
+  return orca.state.blocks[id] ?? (await orca.invokeBackend("get-block", id));
+}
+
+/** The pages a block links to; parsed ahead of the import when the reader converted it. */
+function blockPageRefs(block: LogseqBlock): string[] {
+  return block.pageRefs ?? collectPageRefs(block.content);
+}
+
+function forEachBlock(blocks: LogseqBlock[], fn: (block: LogseqBlock) => void) {
+  for (const block of blocks) {
+    fn(block);
+    if (block.children.length > 0) {
+      forEachBlock(block.children, fn);
     }
   }
+}
 
+/**
+ * Looks up the Orca journal blocks needed by a batch: the days of its journal
+ * pages and every day its `[[journal title]]` links point to.
+ */
+async function resolveJournalBlocks(pagesToImport: LogseqPage[], ctx: ImportContext) {
+  const days = new Set<number>();
   for (const page of pagesToImport) {
-    collectPaths(page.blocks);
+    if (page.journalDay) days.add(page.journalDay);
+    forEachBlock(page.blocks, (block) => {
+      for (const name of blockPageRefs(block)) {
+        const date = parseJournalDate(name, ctx.options.journalTitleFormat);
+        if (date) days.add(toJournalDay(date));
+      }
+    });
   }
 
-  if (allAssetPaths.size === 0) return assetPathMap;
+  for (const day of days) {
+    if (ctx.journalBlockIds.has(day)) continue;
+    try {
+      const journalBlock: Block | null = await orca.invokeBackend("get-journal-block", journalDayToDate(day));
+      if (journalBlock) {
+        ctx.journalBlockIds.set(day, journalBlock.id);
+      }
+    } catch (e) {
+      console.warn(`[Importer] Could not get journal block for ${day}`, e);
+    }
+  }
+}
 
-  try {
-    const assetsFolder = await logseqFolder.getDirectoryHandle('assets');
-    const filesToUpload: File[] = [];
-    const pathsToUpload: string[] = [];
-    
-    for (const originalPath of allAssetPaths) {
-        const relativePath = originalPath.substring(10); // remove '../assets/'
-        try {
-            const fileHandle = await assetsFolder.getFileHandle(relativePath, { create: false });
-            const file = await fileHandle.getFile();
-            filesToUpload.push(file);
-            pathsToUpload.push(originalPath);
-        } catch (e) {
-            console.warn(`[Assets] Asset file not found and skipped: ${relativePath}`, e);
-        }
+/** Shows what the run is doing in its progress dialog, or as a notification without one. */
+export function reportStage(ctx: ImportContext, message: string) {
+  if (ctx.progress) ctx.progress.setStage(message);
+  else orca.notify("info", message);
+}
+
+/**
+ * The asset stage of the run: uploads the files every page links to, once,
+ * before the first batch, so all batches share one path map. Files an earlier
+ * run uploaded are reused by their content hash.
+ */
+export async function importGraphAssets(pages: LogseqPage[], ctx: ImportContext) {
+  reportStage(ctx, "正在查找和上传附件...");
+  const result = await uploadGraphAssets(pages, ctx.logseqFolder, ctx.assets, (done, total) => {
+    reportStage(ctx, `正在上传附件: ${done} / ${total}`);
+  });
+  ctx.session.assets.push(...result.uploaded);
+
+  for (const { path, page, reason } of result.missing) {
+    const where = reason === "outside" ? "不在图谱的 assets 文件夹中" : "在 assets 文件夹中不存在";
+    ctx.log.push({ level: "warn", page: page.name, file: page.file, message: `附件${where}: ${path}` });
+  }
+  for (const path of result.failed) {
+    ctx.log.push({ level: "error", page: "", file: "", message: `附件上传失败: assets/${path}` });
+  }
+  if (result.uploaded.length > 0 || result.reused > 0 || result.failed.length > 0) {
+    const failed = result.failed.length > 0 ? `，${result.failed.length} 个失败` : "";
+    reportStage(ctx, `附件处理完成: 上传 ${result.uploaded.length} 个，复用 ${result.reused} 个${failed}。`);
+  }
+}
+
+/**
+ * Builds the fragment for a `((uuid))` ref. Targets already created in Orca
+ * become real refs; targets that exist in the graph but are not imported yet
+ * keep their source text until `linkPendingReferences` rewrites the block.
+ */
+function blockRefFragment(uuid: string, sourceText: string, ctx: ImportContext): ContentFragment {
+  const target = ctx.graph.blocks.get(uuid);
+  const dbId = ctx.blockIds.get(uuid);
+  if (dbId != null) {
+    return { t: "r", v: target?.content ?? "", id: dbId };
+  }
+  if (target) {
+    return { t: "t", v: sourceText };
+  }
+  return { t: "t", v: `未找到的块: ${uuid}` };
+}
+
+/**
+ * Resolves a page link or tag to the Orca block of the imported page it names,
+ * following Logseq aliases.
+ */
+function findPageId(name: string, ctx: ImportContext): DbId | undefined {
+  const key = pageKey(name);
+  const pageName = ctx.graph.aliases.get(key);
+  return ctx.pageIds.get(key) ?? (pageName != null ? ctx.pageIds.get(pageKey(pageName)) : undefined);
+}
+
+function isImportedPage(name: string, ctx: ImportContext): boolean {
+  const key = pageKey(name);
+  return ctx.graph.names.has(key) || ctx.graph.aliases.has(key);
+}
+
+/**
+ * Resolves a page name to its Orca block: an imported page, one of its
+ * aliases, a journal day or an existing Orca page found before the batch.
+ */
+function resolvePageRef(pageName: string, ctx: ImportContext): DbId | undefined {
+  const dbId = findPageId(pageName, ctx);
+  if (dbId != null) return dbId;
+  const date = parseJournalDate(pageName, ctx.options.journalTitleFormat);
+  return date ? ctx.journalBlockIds.get(toJournalDay(date)) : undefined;
+}
+
+/**
+ * Builds the fragment for a `[[page]]` link or tag. Links to imported pages,
+ * their aliases and journal days carry the Orca block ID.
+ */
+function pageRefFragment(pageName: string, ctx: ImportContext): ContentFragment {
+  const dbId = resolvePageRef(pageName, ctx);
+  return dbId != null ? { t: "r", v: pageName, id: dbId } : { t: "r", v: pageName };
+}
+
+/** The properties of a block or page after the property rules. */
+function mappedProperties(properties: Record<string, any>, ctx: ImportContext): MappedProperties {
+  return mapProperties(properties, ctx.propertyRules);
+}
+
+/** Parses each property the rules keep, under its new name. */
+function parsedProperties(properties: Record<string, any>, ctx: ImportContext) {
+  return parseMappedProperties(mappedProperties(properties, ctx), ctx.options);
+}
+
+function hasUnresolvedPropertyRefs(properties: Record<string, any>, ctx: ImportContext): boolean {
+  return parsedProperties(properties, ctx).some(({ parsed }) => {
+    return parsed.kind === "refs" &&
+      parsed.value.some((name) => resolvePageRef(name, ctx) == null && isImportedPage(name, ctx));
+  });
+}
+
+function hasUnresolvedRefs(block: LogseqBlock, ctx: ImportContext): boolean {
+  if (hasUnresolvedPropertyRefs(block.properties, ctx)) return true;
+  if (block.kind === "embed") return embedTargetId(block.embed!, ctx) == null;
+  if (block.kind === "code" || block.kind === "math" || block.kind === "query") return false;
+  for (const match of block.content.matchAll(BLOCK_REF_REGEX)) {
+    if (!ctx.blockIds.has(match[1]) && ctx.graph.blocks.has(match[1])) return true;
+  }
+  return blockPageRefs(block).some((name) => findPageId(name, ctx) == null && isImportedPage(name, ctx));
+}
+
+/**
+ * Converts one parsed property value to a typed Orca property. A ref list
+ * becomes a BlockRefs property once all its pages exist in Orca; until then
+ * it is kept as its source text.
+ */
+function toBlockProperty(name: string, raw: any, parsed: ParsedPropertyValue, ctx: ImportContext): BlockProperty {
+  switch (parsed.kind) {
+    case "refs": {
+      const ids = parsed.value.map((pageName) => resolvePageRef(pageName, ctx));
+      if (ids.every((id) => id != null)) {
+        return { name, type: PropType.BlockRefs, value: ids };
+      }
+      return { name, type: PropType.Text, value: String(raw) };
     }
+    case "number":
+      return { name, type: PropType.Number, value: parsed.value };
+    case "boolean":
+      return { name, type: PropType.Boolean, value: parsed.value };
+    case "date":
+      return { name, type: PropType.DateTime, value: parsed.value, typeArgs: { subType: "date" } };
+    case "list":
+      return {
+        name,
+        type: PropType.TextChoices,
+        value: parsed.value,
+        typeArgs: { subType: "multi", choices: parsed.value },
+      };
+    default:
+      return { name, type: PropType.Text, value: parsed.value };
+  }
+}
 
-    if (filesToUpload.length > 0) {
-        orca.notify("info", `准备上传 ${filesToUpload.length} 个附件...`);
-        const result = await orca.invokeBackend("upload-assets", filesToUpload);
+function convertProperties(properties: Record<string, any>, ctx: ImportContext): BlockProperty[] {
+  return parsedProperties(properties, ctx).map(({ name, raw, parsed }) => toBlockProperty(name, raw, parsed, ctx));
+}
 
-        if (result && result.uploaded) {
-            for (let i = 0; i < result.uploaded.length; i++) {
-                assetPathMap.set(pathsToUpload[i], result.uploaded[i].path);
-            }
-        }
-        if (result && result.failed && result.failed.length > 0) {
-             orca.notify("warn", `${result.failed.length} 个附件上传失败。`);
-             console.warn("[Assets] Failed to upload:", result.failed);
-        }
+/** Orca's own properties for the built-in Logseq properties the rules left native. */
+function nativeProperties(native: NativeBlockProperties): BlockProperty[] {
+  const properties: BlockProperty[] = [];
+  if (native.collapsed) properties.push({ name: COLLAPSED_PROPERTY, type: PropType.Boolean, value: true });
+  if (native.color) properties.push({ name: COLOR_PROPERTY, type: PropType.Text, value: native.color });
+  return properties;
+}
+
+/**
+ * Makes sure every page the batch refers to has an Orca block: the targets
+ * of `[[links]]`, `#tags`, ref properties and queries. Pages already in Orca
+ * are looked up by alias, ignoring case; pages that exist only through the
+ * reference get an empty stub page, as Logseq creates them, so their
+ * backlinks work in Orca. Pages imported later in the run are linked in the
+ * second pass instead. With property pages enabled in config.edn, property
+ * names get a page too.
+ */
+async function ensureRefTargets(pagesToImport: LogseqPage[], ctx: ImportContext) {
+  const targets = new Map<string, { name: string; page: LogseqPage }>(); // pageKey -> first use
+  const add = (name: string, page: LogseqPage) => {
+    const key = pageKey(name);
+    if (key && !targets.has(key)) targets.set(key, { name: name.trim(), page });
+  };
+  const collect = (properties: Record<string, any>, page: LogseqPage) => {
+    for (const { name, parsed } of parsedProperties(properties, ctx)) {
+      if (ctx.options.propertyPages && !ctx.options.propertyPagesExcluded.includes(name)) add(name, page);
+      if (parsed.kind === "refs") parsed.value.forEach((ref) => add(ref, page));
+    }
+  };
+  for (const page of pagesToImport) {
+    collect(page.properties, page);
+    forEachBlock(page.blocks, (block) => {
+      collect(block.properties, page);
+      if (block.kind === "query") {
+        queryPageRefs(block.content, ctx.options.journalTitleFormat).forEach((name) => add(name, page));
+      } else if (block.kind !== "code" && block.kind !== "math") {
+        blockPageRefs(block).forEach((name) => add(name, page));
+      }
+    });
+  }
+
+  for (const [key, { name, page }] of targets) {
+    if (resolvePageRef(name, ctx) != null || isImportedPage(name, ctx)) continue;
+    if (parseJournalDate(name, ctx.options.journalTitleFormat)) continue; // A journal day Orca has no block for
+    let dbId = await findAliasBlockId(name);
+    if (dbId == null) {
+      dbId = await insertPageHeading(name, ctx);
+      if (!dbId) continue;
+      await orca.commands.invokeEditorCommand("core.editor.createAlias", null, name, dbId);
+      ctx.log.push({ level: "info", page: page.name, file: page.file, message: `引用的页面 "${name}" 没有页面文件，已创建空白页面` });
     }
-  } catch (e) {
-      console.error("[Assets] Could not open 'assets' directory.", e);
-      orca.notify("error", "无法打开 'assets' 文件夹，附件迁移失败。");
+    ctx.pageIds.set(key, dbId);
   }
+}
 
-  return assetPathMap;
+/** The shape of what one `batchInsertReprs` inserted: blocks, or page headings with their blocks. */
+interface InsertedTree {
+  children: InsertedTree[];
 }
 
 /**
- * Parses a content string into an array of Orca ContentFragments.
- * This is the core transformation function.
+ * Finds the Orca IDs of the blocks `batchInsertReprs` just inserted under
+ * `parentId`, in the same pre-order as the reprs it was given. Used when the
+ * command does not return the IDs itself.
  */
-function parseContentToFragments(
-  content: string,
-  graph: LogseqGraph,
-  assetPathMap: Map<string, string>
-): ContentFragment[] {
-  const fragments: ContentFragment[] = [];
-  let buffer = "";
-  let i = 0;
+async function collectInsertedIds(parentId: DbId, nodes: InsertedTree[]): Promise<DbId[]> {
+  const parent: Block | null = await orca.invokeBackend("get-block", parentId);
+  if (!parent) return [];
 
-  const flushBuffer = () => {
-    if (buffer) {
-      fragments.push({ t: "t", v: buffer });
-      buffer = "";
+  const childIds = parent.children.slice(-nodes.length);
+  const ids: DbId[] = [];
+  for (let i = 0; i < childIds.length; i++) {
+    ids.push(childIds[i]);
+    if (nodes[i].children.length > 0) {
+      ids.push(...(await collectInsertedIds(childIds[i], nodes[i].children)));
     }
-  };
+  }
+  return ids;
+}
 
-  while (i < content.length) {
-    const remaining = content.substring(i);
-
-    // 1. Block Embed: {{embed ((uuid))}}
-    if (remaining.startsWith("{{embed ((")) {
-      const endIdx = remaining.indexOf("))}}");
-      if (endIdx !== -1) {
-        flushBuffer();
-        const uuid = remaining.substring(10, endIdx);
-        const block = graph.blocks.get(uuid);
-        fragments.push({ t: "r", v: block?.content || `未找到的块: ${uuid}`, q: uuid });
-        i += endIdx + 4;
-        continue;
-      }
+interface InsertedBlock {
+  dbId: DbId;
+  block: LogseqBlock;
+}
+
+/**
+ * Pairs inserted Orca blocks with their Logseq source: records UUID -> DbId
+ * and queues blocks whose refs still need the second pass. Returns the
+ * inserted task and flashcard blocks.
+ */
+function recordInsertedBlocks(
+  page: LogseqPage,
+  insertedIds: DbId[],
+  unresolved: Set<LogseqBlock>,
+  ctx: ImportContext,
+): { tasks: InsertedBlock[]; cards: InsertedBlock[] } {
+  const tasks: InsertedBlock[] = [];
+  const cards: InsertedBlock[] = [];
+  let i = 0;
+  forEachBlock(page.blocks, (block) => {
+    const dbId = insertedIds[i++];
+    if (dbId == null) return;
+    if (block.id) ctx.blockIds.set(block.id, dbId);
+    if (unresolved.has(block)) {
+      ctx.pendingRefBlocks.push({ dbId, block, page, properties: block.properties });
     }
+    if (block.marker) tasks.push({ dbId, block });
+    if (block.card) cards.push({ dbId, block });
+  });
+  return { tasks, cards };
+}
 
-    // 2. Block Reference: ((uuid))
-    if (remaining.startsWith("((")) {
-      const endIdx = remaining.indexOf("))");
-      if (endIdx !== -1) {
-        flushBuffer();
-        const uuid = remaining.substring(2, endIdx);
-        const block = graph.blocks.get(uuid);
-        fragments.push({ t: "r", v: block?.content || `未找到的块: ${uuid}`, q: uuid });
-        i += endIdx + 2;
-        continue;
-      }
+/**
+ * Turns Logseq tasks into Orca tasks: the task tag carries the status,
+ * priority and SCHEDULED/DEADLINE dates as tag data. Date values link the
+ * block to the journal day, which is what `get-remindings` reports.
+ */
+async function applyTaskTags(tasks: InsertedBlock[]) {
+  for (const { dbId, block } of tasks) {
+    const data: { name: string; type: number; value: any }[] = [
+      { name: "Status", type: PropType.TextChoices, value: [TASK_STATUS[block.marker!]] },
+    ];
+    if (block.priority) {
+      data.push({ name: "Priority", type: PropType.TextChoices, value: [block.priority] });
+    }
+    if (block.scheduled) {
+      data.push({ name: "Scheduled", type: PropType.DateTime, value: block.scheduled });
     }
+    if (block.deadline) {
+      data.push({ name: "Deadline", type: PropType.DateTime, value: block.deadline });
+    }
+    await orca.commands.invokeEditorCommand("core.editor.insertTag", null, dbId, TASK_TAG, data);
+  }
+}
 
-    // 3. Page Link or Tag: [[...]] or #[[...]]
-    if (remaining.startsWith("[[") || remaining.startsWith("#[[")) {
-      const isTag = remaining.startsWith("#");
-      const startIdx = isTag ? 3 : 2;
-      const endIdx = remaining.indexOf("]]");
-      if (endIdx !== -1) {
-        flushBuffer();
-        const pageName = remaining.substring(startIdx, endIdx);
-        fragments.push({ t: "r", v: pageName });
-        i += endIdx + 2;
-        continue;
-      }
+/**
+ * Turns Logseq flashcards into blocks with the card tag. A card that was
+ * reviewed in Logseq keeps its schedule, interval and ease as tag data.
+ */
+async function applyCardTags(cards: InsertedBlock[]) {
+  for (const { dbId, block } of cards) {
+    const data: { name: string; type: number; value: any }[] = [];
+    for (const [key, field] of Object.entries(CARD_FIELDS)) {
+      const value = block.card![key as keyof typeof CARD_FIELDS];
+      if (value == null) continue;
+      data.push({ name: field.name, type: value instanceof Date ? PropType.DateTime : PropType.Number, value });
+    }
+    await orca.commands.invokeEditorCommand("core.editor.insertTag", null, dbId, CARD_TAG, data);
+  }
+}
+
+/**
+ * Properties Orca has no native place for: the clock history, and planning
+ * dates of blocks that are not tasks.
+ */
+function planningProperties(block: LogseqBlock): BlockProperty[] {
+  const properties: BlockProperty[] = [];
+  if (block.logbook && block.logbook.length > 0) {
+    properties.push({ name: "logbook", type: PropType.Text, value: block.logbook.join("\n") });
+  }
+  if (!block.marker) {
+    if (block.scheduled) {
+      properties.push({ name: "scheduled", type: PropType.DateTime, value: block.scheduled, typeArgs: { subType: "datetime" } });
     }
+    if (block.deadline) {
+      properties.push({ name: "deadline", type: PropType.DateTime, value: block.deadline, typeArgs: { subType: "datetime" } });
+    }
+  }
+  return properties;
+}
 
-    // 4. Simple Tag: #tag
-    const tagMatch = remaining.match(/^#([^\s#\[\]]+)/);
-    if (tagMatch) {
-      flushBuffer();
-      fragments.push({ t: "r", v: tagMatch[1] });
-      i += tagMatch[0].length;
-      continue;
+/**
+ * Page number and color of a PDF highlight as typed properties.
+ */
+function highlightProperties(block: LogseqBlock): BlockProperty[] {
+  if (!block.highlight) return [];
+  const properties: BlockProperty[] = [
+    { name: "hl-page", type: PropType.Number, value: block.highlight.page },
+  ];
+  if (block.highlight.color) {
+    properties.push({
+      name: "hl-color",
+      type: PropType.TextChoices,
+      value: [block.highlight.color],
+      typeArgs: { subType: "single", choices: [block.highlight.color] },
+    });
+  }
+  return properties;
+}
+
+/** The uploaded Orca path of a local file link, keeping its `#page=` suffix. */
+function uploadedAssetPath(localPath: string, ctx: ImportContext): string | undefined {
+  const relativePath = assetRelativePath(localPath);
+  const uploaded = relativePath != null ? ctx.assets.paths.get(relativePath) : undefined;
+  return uploaded && uploaded + assetSuffix(localPath);
+}
+
+// Orca's inline media fragments; like images, they take the asset path as `v`.
+const MEDIA_FRAGMENT_TYPES = { video: "video", audio: "audio" };
+
+/**
+ * Maps a local attachment link to the fragment for the uploaded file: an
+ * image, an embedded video or audio player, or a link, which for a PDF opens
+ * it in Orca's reader.
+ */
+function assetFragment(
+  localPath: string,
+  altText: string,
+  attrs: string | undefined,
+  isEmbed: boolean,
+  ctx: ImportContext,
+): ContentFragment {
+  const newPath = uploadedAssetPath(localPath, ctx);
+  if (!newPath) {
+    return { t: "t", v: `[附件未找到: ${localPath}]` };
+  }
+
+  const kind = assetKind(localPath);
+  if (kind === "image") {
+    const imageFragment: ContentFragment = { t: "i", v: newPath, a: altText };
+    if (attrs) {
+      const width = attrs.match(/:width\s+(\d+)/)?.[1];
+      const height = attrs.match(/:height\s+(\d+)/)?.[1];
+      if (width) imageFragment.w = parseInt(width);
+      if (height) imageFragment.h = parseInt(height);
     }
+    return imageFragment;
+  }
+  if (isEmbed && (kind === "video" || kind === "audio")) {
+    return { t: MEDIA_FRAGMENT_TYPES[kind], v: newPath, a: altText };
+  }
+  const label = altText || localPath.replace(/[?#].*$/, "").split("/").pop()!;
+  return { t: "t", v: label, f: "l", fa: { l: newPath, t: "_blank" } };
+}
 
-    // 5. Attachments
-    const attachmentMatch = remaining.match(ATTACHMENT_REGEX);
-    if (attachmentMatch) {
-      flushBuffer();
-      const [fullMatch, , altText, localPath, , attrs] = attachmentMatch;
-      const newPath = assetPathMap.get(localPath);
-
-      if (newPath) {
-        const isImage = /\.(png|jpg|jpeg|gif|svg|webp)$/i.test(localPath);
-        if (isImage) {
-          const imageFragment: ContentFragment = { t: "i", v: newPath, a: altText };
-          if(attrs) {
-            const width = attrs.match(/:width\s+(\d+)/)?.[1];
-            const height = attrs.match(/:height\s+(\d+)/)?.[1];
-            if(width) imageFragment.w = parseInt(width);
-            if(height) imageFragment.h = parseInt(height);
-          }
-          fragments.push(imageFragment);
-        } else {
-          fragments.push({ t: "t", v: altText || localPath.split('/').pop()!, f: "l", fa: { l: newPath, t: "_blank" } });
-        }
-      } else {
-        fragments.push({ t: "t", v: `[附件未找到: ${localPath}]` });
+/**
+ * Parses a content string into an array of Orca ContentFragments.
+ * This is the core transformation function; inline syntax is tokenized in
+ * inline.ts and refs and assets are resolved against the import context.
+ * Content the graph reader already tokenized only has its refs and assets
+ * resolved.
+ */
+function parseContentToFragments(content: string, ctx: ImportContext, parsed?: ContentFragment[]): ContentFragment[] {
+  const resolver: InlineResolver = {
+    blockRef: (uuid, sourceText) => blockRefFragment(uuid, sourceText, ctx),
+    pageRef: (name) => pageRefFragment(name, ctx),
+    asset: (path, alt, attrs, isEmbed) => assetFragment(path, alt, attrs, isEmbed, ctx),
+  };
+  return parsed ? resolveDeferred(parsed, resolver) : parseInline(content, resolver);
+}
+
+/**
+ * Maps a block's kind to its Orca repr. Code and math keep their source
+ * verbatim; quotes and text are parsed into fragments. A text block with
+ * `heading::` is a heading, without the `##` marks of its content.
+ */
+function blockToRepr(block: LogseqBlock, ctx: ImportContext): Repr {
+  switch (block.kind) {
+    case "code":
+      return { type: "code", lang: block.lang ?? "", content: [{ t: "t", v: block.content }] };
+    case "math":
+      return { type: "math", content: [{ t: "t", v: block.content }] };
+    case "embed":
+      return embedRepr(block.embed!, ctx);
+    default: {
+      const headingLevel = block.kind === "text" ? mappedProperties(block.properties, ctx).native.headingLevel : undefined;
+      const content = headingLevel ? block.content.replace(HEADING_MARK_REGEX, "") : block.content;
+      // Fragments parsed with the heading marks do not fit the stripped content.
+      const parsed = content === block.content ? block.fragments : undefined;
+      const contentFragments = parseContentToFragments(content, ctx, parsed);
+      // A PDF highlight links to its page in the uploaded PDF.
+      const pdfPath = block.highlight && uploadedAssetPath(block.highlight.pdf, ctx);
+      if (pdfPath) {
+        const { page } = block.highlight!;
+        contentFragments.push(
+          { t: "t", v: " " },
+          { t: "t", v: `P${page}`, f: "l", fa: { l: `${pdfPath}#page=${page}`, t: "_blank" } }
+        );
       }
-      i += fullMatch.length;
-      continue;
+      const repr: Repr = {
+        type: block.kind === "quote" ? "quote" : headingLevel ? "heading" : "text",
+        content: contentFragments.length > 0 ? contentFragments : [{ t: 't', v: '' }],
+      };
+      if (headingLevel) repr.level = headingLevel;
+      return repr;
     }
+  }
+}
+
+function embedTargetId(embed: LogseqEmbed, ctx: ImportContext): DbId | undefined {
+  return embed.uuid ? ctx.blockIds.get(embed.uuid) : resolvePageRef(embed.page!, ctx);
+}
+
+/**
+ * Turns an embed into a mirror of the embedded block or page, which shows
+ * the target with its whole subtree. Until the target is in Orca the block
+ * is a placeholder naming it; the second pass makes it the mirror.
+ */
+function embedRepr(embed: LogseqEmbed, ctx: ImportContext): Repr {
+  const targetId = embedTargetId(embed, ctx);
+  if (targetId == null) {
+    const target = embed.uuid ? `((${embed.uuid}))` : `[[${embed.page}]]`;
+    return { type: "text", content: [{ t: "t", v: `[未找到嵌入的内容: ${target}]` }] };
+  }
+  const label = embed.page ?? ctx.graph.blocks.get(embed.uuid!)?.content ?? embed.uuid!;
+  // The ref is what shows where mirrors are not rendered, e.g. in search results.
+  return { type: MIRROR_REPR_TYPE, mirrorId: targetId, content: [{ t: "r", v: label, id: targetId }] };
+}
+
+/**
+ * Turns a Logseq query into a live Orca query block. A query that cannot be
+ * translated is kept as a code block saying so, and logged.
+ */
+function queryToRepr(block: LogseqBlock, page: LogseqPage, ctx: ImportContext): Repr {
+  const translation = translateQuery(block.content, {
+    journalTitleFormat: ctx.options.journalTitleFormat,
+    pageId: (name) => resolvePageRef(name, ctx),
+  });
+  const location = { page: page.name, file: page.file, line: block.line };
+
+  if (!translation.ok) {
+    const source = block.content.startsWith("{")
+      ? `#+BEGIN_QUERY\n${block.content}\n#+END_QUERY`
+      : `{{query ${block.content}}}`;
+    ctx.log.push({ ...location, level: "warn", message: `查询未能转换 (${translation.reason}): ${source}` });
+    return {
+      type: "code",
+      lang: "clojure",
+      content: [{ t: "t", v: `;; 未能转换的 Logseq 查询: ${translation.reason}\n${source}` }],
+    };
+  }
 
-    buffer += content[i];
-    i++;
+  for (const note of translation.notes) {
+    ctx.log.push({ ...location, level: "info", message: `查询已近似转换: ${note}` });
   }
+  return {
+    type: "query",
+    ...translation.description,
+    content: translation.title ? [{ t: "t", v: translation.title }] : [],
+  };
+}
 
-  flushBuffer();
-  return fragments;
+/** Macros the inline parser kept as code; user macros were expanded at parse time. */
+function logUnconvertedMacros(block: LogseqBlock, page: LogseqPage, ctx: ImportContext) {
+  for (const macro of collectUnconvertedMacros(block.content)) {
+    ctx.log.push({
+      level: "warn",
+      page: page.name,
+      file: page.file,
+      line: block.line,
+      message: `不支持的宏 {{${macro.name}}}，已保留为代码: ${macro.source}`,
+    });
+  }
 }
 
 /**
@@ -187,91 +686,638 @@ function parseContentToFragments(
  */
 function convertLogseqBlocksToReprs(
   logseqBlocks: LogseqBlock[],
-  graph: LogseqGraph,
-  assetPathMap: Map<string, string>,
+  page: LogseqPage,
+  ctx: ImportContext,
   currentIndent = 0
 ): Repr[] {
   const reprs: Repr[] = [];
   for (const block of logseqBlocks) {
-    const contentFragments = parseContentToFragments(block.content, graph, assetPathMap);
-
-    const repr: Repr = {
-      type: "text",
-      content: contentFragments.length > 0 ? contentFragments : [{ t: 't', v: '' }],
-      indent: currentIndent,
-    };
+    const repr = block.kind === "query" ? queryToRepr(block, page, ctx) : blockToRepr(block, ctx);
+    repr.indent = currentIndent;
+    if (block.kind === "text" || block.kind === "quote") logUnconvertedMacros(block, page, ctx);
     
-    if (Object.keys(block.properties).length > 0) {
-       repr.properties = Object.entries(block.properties).map(([name, value]) => ({ 
-           name, 
-           value: String(value), 
-           type: 1 // PropType.Text
-        }));
+    const properties = [
+      ...convertProperties(block.properties, ctx),
+      ...nativeProperties(mappedProperties(block.properties, ctx).native),
+      ...planningProperties(block),
+      ...highlightProperties(block),
+    ];
+    if (properties.length > 0) {
+       repr.properties = properties;
     }
 
     reprs.push(repr);
 
     if (block.children.length > 0) {
-      reprs.push(...convertLogseqBlocksToReprs(block.children, graph, assetPathMap, currentIndent + 1));
+      reprs.push(...convertLogseqBlocksToReprs(block.children, page, ctx, currentIndent + 1));
     }
   }
   return reprs;
 }
 
 /**
- * Imports a batch of Logseq pages into Orca Note.
+ * Finds the Orca block that has an alias. Orca matches aliases exactly, so
+ * when that fails the alias is searched and compared by pageKey, the way
+ * Logseq treats `[[Foo]]` and `[[foo]]` as the same page.
+ */
+async function findAliasBlockId(alias: string): Promise<DbId | null> {
+  const result = await orca.invokeBackend("get-blockid-by-alias", alias);
+  if (result?.id != null) return result.id;
+
+  const key = pageKey(alias);
+  // The backend answers with the matching alias names.
+  const found: unknown = await orca.invokeBackend("search-aliases", alias.trim());
+  const names = Array.isArray(found) ? found.filter((name): name is string => typeof name === "string") : [];
+  for (const name of names) {
+    if (name === alias || pageKey(name) !== key) continue;
+    const match = await orca.invokeBackend("get-blockid-by-alias", name);
+    if (match?.id != null) return match.id;
+  }
+  return null;
+}
+
+/**
+ * Records the heading of a new page with the session: it gets the session
+ * tag and is listed so the session can be rolled back.
+ */
+async function recordPageHeading(name: string, dbId: DbId, ctx: ImportContext) {
+  ctx.session.createdIds.push(dbId);
+  if (ctx.session.sessionTag) {
+    await orca.commands.invokeEditorCommand("core.editor.insertTag", null, dbId, ctx.session.sessionTag);
+  }
+  if (name.includes("/")) ctx.namespacePages.push({ name, dbId });
+}
+
+/**
+ * Inserts the heading block of a new page at the session's target: the last
+ * child of the chosen parent block, or the top level.
+ */
+async function insertPageHeading(name: string, ctx: ImportContext): Promise<DbId | null> {
+  const { parentId } = ctx.session;
+  let parent: Block | null = null;
+  if (parentId != null) {
+    parent = await getBlock(parentId);
+    if (!parent) throw new Error(`找不到导入目标块: ${parentId}`);
+  }
+
+  const dbId: DbId | null = await orca.commands.invokeEditorCommand(
+    "core.editor.insertBlock", null, parent, parent ? "lastChild" : null,
+    [{ t: "t", v: name }],
+    { type: "heading", level: 1 }
+  );
+  if (!dbId) return null;
+
+  await recordPageHeading(name, dbId, ctx);
+  return dbId;
+}
+
+/**
+ * Finds the Orca page a graph page collides with: one that already has the
+ * page's name or one of its aliases.
+ */
+async function findCollision(page: LogseqPage): Promise<PageCollision | null> {
+  for (const name of [page.name, ...page.aliases]) {
+    const existingId = await findAliasBlockId(name);
+    if (existingId != null) return { page, existingId, matchedName: name };
+  }
+  return null;
+}
+
+/**
+ * Lists the pages of an import whose name or alias is taken in Orca, so the
+ * user can decide on each before the run. Journal pages are left out: they
+ * always go into the Orca journal day.
+ */
+export async function findPageCollisions(pages: LogseqPage[]): Promise<PageCollision[]> {
+  const collisions: PageCollision[] = [];
+  for (const page of pages) {
+    if (page.journalDay) continue;
+    const collision = await findCollision(page);
+    if (collision) collisions.push(collision);
+  }
+  return collisions;
+}
+
+/** The first free page name made of the name and a suffix. */
+async function uniquePageName(name: string): Promise<string> {
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${name} (Logseq)` : `${name} (Logseq ${n})`;
+    if ((await findAliasBlockId(candidate)) == null) return candidate;
+  }
+}
+
+/**
+ * Applies the collision strategy chosen for the page and records the
+ * decision in the import log. Returns the page block to import into, or
+ * null when the page is skipped.
+ */
+async function resolveCollision(
+  { page, existingId, matchedName }: PageCollision,
+  ctx: ImportContext,
+): Promise<{ id: DbId; shared: boolean } | null> {
+  const strategy = ctx.collisionDecisions.get(page.file) ?? ctx.collisionStrategy;
+  const location = { page: page.name, file: page.file };
+  const reason = `虎鲸中已有页面 "${matchedName}"`;
+
+  switch (strategy) {
+    case "merge":
+      ctx.log.push({ ...location, level: "info", message: `${reason}，导入的块已追加到该页面下` });
+      return { id: existingId, shared: true };
+    case "overwrite": {
+      const existing: Block | null = await orca.invokeBackend("get-block", existingId);
+      const oldIds = existing?.children ?? [];
+      if (oldIds.length > 0) {
+        await orca.commands.invokeEditorCommand("core.editor.deleteBlocks", null, oldIds);
+      }
+      ctx.log.push({ ...location, level: "warn", message: `${reason}，已删除其中 ${oldIds.length} 个块并替换为导入的内容` });
+      return { id: existingId, shared: true };
+    }
+    case "rename": {
+      const originalName = page.name;
+      page.name = await uniquePageName(originalName);
+      const id = await insertPageHeading(page.name, ctx);
+      if (!id) throw new Error(`创建页面失败: "${page.name}"`);
+      // Links in the graph still use the original name and mean this page.
+      ctx.pageIds.set(pageKey(originalName), id);
+      ctx.log.push({ ...location, page: originalName, level: "info", message: `${reason}，已导入为 "${page.name}"` });
+      return { id, shared: false };
+    }
+    default:
+      ctx.pageIds.set(pageKey(page.name), existingId);
+      ctx.skippedNames.add(pageKey(page.name));
+      ctx.log.push({ ...location, level: "info", message: `${reason}，已跳过该页面` });
+      return null;
+  }
+}
+
+/**
+ * Where a page's content goes: a block in Orca, a new page heading that is
+ * inserted together with the content, or nowhere.
+ */
+type PagePlacement =
+  | { kind: "block"; id: DbId; shared: boolean }
+  | { kind: "new" }
+  | { kind: "skipped" };
+
+/**
+ * Decides which Orca block a page's content goes under. Journal pages reuse
+ * the Orca journal block of the same day; other pages get a new heading
+ * aliased with the page name. Under a parent block that heading is left to
+ * the bulk insert of new pages; at the top level it is created here. A page
+ * with the name of another file of the graph goes into that file's page. A
+ * page whose name is already taken in Orca is resolved with the collision
+ * strategy.
+ */
+async function placePage(page: LogseqPage, ctx: ImportContext): Promise<PagePlacement> {
+  if (page.journalDay) {
+    const journalBlockId = ctx.journalBlockIds.get(page.journalDay);
+    if (journalBlockId != null) return { kind: "block", id: journalBlockId, shared: true };
+    console.warn(`[Importer] No Orca journal block for "${page.name}", importing it as a page.`);
+  }
+
+  const previous = ctx.previousImports.get(page);
+  if (previous) return { kind: "block", id: previous.pageBlockId, shared: previous.shared };
+
+  // Another file of the graph with the same name came first: both go into one page.
+  const key = pageKey(page.name);
+  const samePageId = ctx.graph.duplicates.has(key) ? ctx.pageIds.get(key) : undefined;
+  if (samePageId != null) {
+    const location = { page: page.name, file: page.file };
+    const others = ctx.graph.duplicates.get(key)!.filter((file) => file !== page.file).join(", ");
+    if (ctx.skippedNames.has(key)) {
+      ctx.log.push({ ...location, level: "info", message: `与 ${others} 同名的页面已跳过，该文件也已跳过` });
+      return { kind: "skipped" };
+    }
+    ctx.log.push({ ...location, level: "warn", message: `与 ${others} 同名，内容已合并到同一页面` });
+    return { kind: "block", id: samePageId, shared: true };
+  }
+
+  const collision = await findCollision(page);
+  if (collision) {
+    const pageBlock = await resolveCollision(collision, ctx);
+    return pageBlock ? { kind: "block", ...pageBlock } : { kind: "skipped" };
+  }
+
+  if (ctx.session.parentId != null) return { kind: "new" };
+  const pageBlockId = await insertPageHeading(page.name, ctx);
+  if (!pageBlockId) throw new Error(`创建页面失败: "${page.name}"`);
+  return { kind: "block", id: pageBlockId, shared: false };
+}
+
+/**
+ * Deletes what an earlier run imported for a page that is imported again.
+ * A page heading belongs to the importer, so all its children go; under a
+ * journal block or a merged page only the blocks that run inserted are
+ * removed, leaving notes written in Orca alone.
+ */
+async function clearPreviousImport(page: LogseqPage, pageBlockId: DbId, ctx: ImportContext) {
+  const previous = ctx.previousImports.get(page);
+  if (!previous) return;
+
+  let ids: DbId[];
+  if (previous.shared) {
+    const blocks: (Block | null)[] = await orca.invokeBackend("get-blocks", previous.rootIds);
+    ids = (blocks ?? []).filter((block): block is Block => block != null).map((block) => block.id);
+  } else {
+    const pageBlock: Block | null = await orca.invokeBackend("get-block", pageBlockId);
+    ids = pageBlock?.children ?? [];
+  }
+  if (ids.length > 0) {
+    await orca.commands.invokeEditorCommand("core.editor.deleteBlocks", null, ids);
+  }
+}
+
+function countBlocks(block: LogseqBlock): number {
+  return block.children.reduce((sum, child) => sum + countBlocks(child), 1);
+}
+
+/**
+ * Gives a page block its name and `alias::` entries as Orca aliases, and its
+ * `tags::` entries as tags. Aliases that already exist are left untouched.
+ */
+async function applyAliasesAndTags(page: LogseqPage, pageBlockId: DbId, ctx: ImportContext) {
+  const names = page.journalDay ? page.aliases : [page.name, ...page.aliases];
+  for (const alias of names) {
+    const existingId = await findAliasBlockId(alias);
+    if (existingId == null) {
+      const error = await orca.commands.invokeEditorCommand("core.editor.createAlias", null, alias, pageBlockId);
+      if (error) {
+        console.warn(`[Importer] 创建别名 "${alias}" 失败:`, error);
+        continue;
+      }
+    } else if (existingId !== pageBlockId) {
+      console.warn(`[Importer] 别名 "${alias}" 已被其它块使用，跳过。`);
+      continue;
+    }
+    ctx.pageIds.set(pageKey(alias), pageBlockId);
+  }
+  ctx.pageIds.set(pageKey(page.name), pageBlockId);
+
+  for (const tag of page.tags) {
+    await orca.commands.invokeEditorCommand("core.editor.insertTag", null, pageBlockId, tag);
+  }
+}
+
+/** Whether a page has query blocks, which name other pages when they are converted. */
+export function hasQueryBlocks(page: LogseqPage): boolean {
+  const visit = (blocks: LogseqBlock[]): boolean => blocks.some((block) => block.kind === "query" || visit(block.children));
+  return visit(page.blocks);
+}
+
+function pageProperties(page: LogseqPage, ctx: ImportContext): BlockProperty[] {
+  return [
+    ...convertProperties(page.properties, ctx),
+    ...nativeProperties(mappedProperties(page.properties, ctx).native),
+  ];
+}
+
+/** A page's blocks as reprs, with the blocks whose refs wait for the second pass. */
+interface ConvertedPage {
+  reprs: Repr[];
+  unresolved: Set<LogseqBlock>;
+}
+
+function convertPage(page: LogseqPage, ctx: ImportContext): ConvertedPage {
+  const unresolved = new Set<LogseqBlock>();
+  forEachBlock(page.blocks, (block) => {
+    if (hasUnresolvedRefs(block, ctx)) unresolved.add(block);
+  });
+  return { reprs: convertLogseqBlocksToReprs(page.blocks, page, ctx), unresolved };
+}
+
+/** Inserts reprs with one command, paced by the flow control. */
+function insertReprs(parent: Block, reprs: Repr[], ctx: ImportContext): Promise<unknown> {
+  return ctx.flow.run(reprs.length, () =>
+    ctx.times.measure("插入块", () =>
+      orca.commands.invokeEditorCommand("core.editor.batchInsertReprs", null, parent, "lastChild", reprs)
+    )
+  );
+}
+
+/**
+ * Records the blocks inserted for a page: the top-level ones as its rootIds,
+ * the UUID of each, and the task and card tags they carry.
+ */
+async function recordPageBlocks(
+  page: LogseqPage,
+  result: PageImportResult,
+  insertedIds: DbId[],
+  unresolved: Set<LogseqBlock>,
+  ctx: ImportContext,
+) {
+  let index = 0;
+  for (const block of page.blocks) {
+    if (insertedIds[index] != null) result.rootIds.push(insertedIds[index]);
+    index += countBlocks(block);
+  }
+  // Content added under a block the session did not create is
+  // recorded block by block, so a rollback removes only that.
+  if (result.shared || ctx.previousImports.has(page)) ctx.session.createdIds.push(...result.rootIds);
+  const { tasks, cards } = recordInsertedBlocks(page, insertedIds, unresolved, ctx);
+  await ctx.times.measure("任务与闪卡", async () => {
+    await applyTaskTags(tasks);
+    await applyCardTags(cards);
+  });
+}
+
+/**
+ * Imports a page into a block that is already in Orca: a journal day, an
+ * earlier import of the page, a page it collided with or a heading created
+ * for it at the top level.
+ */
+async function importIntoPageBlock(
+  page: LogseqPage,
+  pageBlock: { id: DbId; shared: boolean },
+  result: PageImportResult,
+  ctx: ImportContext,
+) {
+  const pageBlockId = pageBlock.id;
+  result.pageBlockId = pageBlockId;
+  result.shared = pageBlock.shared;
+  await ctx.times.measure("清除旧内容", () => clearPreviousImport(page, pageBlockId, ctx));
+  await ctx.times.measure("别名与标签", async () => {
+    await applyAliasesAndTags(page, pageBlockId, ctx);
+    const properties = pageProperties(page, ctx);
+    if (properties.length > 0) {
+      await orca.commands.invokeEditorCommand("core.editor.setProperties", null, [pageBlockId], properties);
+      if (hasUnresolvedPropertyRefs(page.properties, ctx)) {
+        ctx.pendingRefBlocks.push({ dbId: pageBlockId, block: null, page, properties: page.properties });
+      }
+    }
+  });
+
+  const parentBlock = await getBlock(pageBlockId);
+  if (!parentBlock) throw new Error(`获取页面块失败: "${page.name}"`);
+  if (page.blocks.length === 0) return;
+
+  const { reprs, unresolved } = await ctx.times.measure("转换内容", async () => convertPage(page, ctx));
+  if (reprs.length === 0) return;
+  let insertedIds = await insertReprs(parentBlock, reprs, ctx);
+  if (!Array.isArray(insertedIds) || insertedIds.length !== reprs.length) {
+    insertedIds = await collectInsertedIds(pageBlockId, page.blocks);
+  }
+  await recordPageBlocks(page, result, insertedIds as DbId[], unresolved, ctx);
+}
+
+/** A new page waiting for the bulk insert under the parent block. */
+interface NewPage {
+  page: LogseqPage;
+  result: PageImportResult;
+  converted: ConvertedPage;
+  properties: BlockProperty[];
+  pendingProperties: boolean; // Its property refs wait for the second pass
+}
+
+/**
+ * Inserts new pages under the parent block with one command: the heading of
+ * each, carrying the page properties, followed by its blocks one level
+ * deeper. Each page is then recorded as importIntoPageBlock records one.
+ */
+async function insertNewPages(pages: NewPage[], ctx: ImportContext) {
+  const parentId = ctx.session.parentId!;
+  const parent = await getBlock(parentId);
+  if (!parent) throw new Error(`找不到导入目标块: ${parentId}`);
+
+  const reprs: Repr[] = [];
+  for (const { page, converted, properties } of pages) {
+    const heading: Repr = { type: "heading", level: 1, content: [{ t: "t", v: page.name }], indent: 0 };
+    if (properties.length > 0) heading.properties = properties;
+    reprs.push(heading);
+    for (const repr of converted.reprs) {
+      repr.indent = (repr.indent ?? 0) + 1;
+      reprs.push(repr);
+    }
+  }
+  let insertedIds = await insertReprs(parent, reprs, ctx);
+  if (!Array.isArray(insertedIds) || insertedIds.length !== reprs.length) {
+    insertedIds = await collectInsertedIds(parentId, pages.map(({ page }) => ({ children: page.blocks })));
+  }
+  const ids = insertedIds as DbId[];
+
+  let offset = 0;
+  for (const { page, result, converted, pendingProperties } of pages) {
+    const headingId = ids[offset];
+    const blockIds = ids.slice(offset + 1, offset + 1 + converted.reprs.length);
+    offset += 1 + converted.reprs.length;
+    try {
+      if (headingId == null) throw new Error(`创建页面失败: "${page.name}"`);
+      result.pageBlockId = headingId;
+      await recordPageHeading(page.name, headingId, ctx);
+      await ctx.times.measure("别名与标签", () => applyAliasesAndTags(page, headingId, ctx));
+      if (pendingProperties) {
+        ctx.pendingRefBlocks.push({ dbId: headingId, block: null, page, properties: page.properties });
+      }
+      await recordPageBlocks(page, result, blockIds, converted.unresolved, ctx);
+    } catch (e: any) {
+      recordPageError(result, e, ctx);
+    }
+    reportPageResult(result, ctx);
+  }
+}
+
+function recordPageError(result: PageImportResult, e: any, ctx: ImportContext) {
+  const { page } = result;
+  console.error(`[Importer] 导入页面 "${page.name}" 失败:`, e);
+  ctx.log.push({ level: "error", page: page.name, file: page.file, message: `导入页面失败: ${e.message}` });
+  result.error = e.message;
+}
+
+function reportPageResult(result: PageImportResult, ctx: ImportContext) {
+  ctx.progress?.setPageStatus(result.page, result.error ? "failed" : "imported", result.error);
+}
+
+/**
+ * Imports a batch of Logseq pages into Orca Note. New pages under a parent
+ * block are inserted in groups, as many blocks at a time as the flow
+ * control allows; other pages go in one by one. A cancelled run stops
+ * before the next page; the pages it did not reach have no result.
  */
 export async function importPageBatch(
   pagesToImport: LogseqPage[],
-  graph: LogseqGraph,
-  logseqFolder: FileSystemDirectoryHandle,
-) {
-  orca.notify("info", "开始分析和上传附件...");
-  const assetPathMap = await preUploadAssetsAndGetPathMap(pagesToImport, logseqFolder);
-  orca.notify("success", "附件处理完成。");
+  ctx: ImportContext,
+): Promise<PageImportResult[]> {
+  const results: PageImportResult[] = [];
+  await ctx.times.measure("查找日志块", () => resolveJournalBlocks(pagesToImport, ctx));
 
   await orca.commands.invokeGroup(
     async () => {
+      await ctx.times.measure("创建引用页面", () => ensureRefTargets(pagesToImport, ctx));
+
+      let group: NewPage[] = [];
+      let groupBlocks = 0;
+      const insertGroup = async () => {
+        if (group.length === 0) return;
+        const pages = group;
+        group = [];
+        groupBlocks = 0;
+        try {
+          await insertNewPages(pages, ctx);
+        } catch (e: any) {
+          for (const { result } of pages) {
+            recordPageError(result, e, ctx);
+            reportPageResult(result, ctx);
+          }
+        }
+      };
+
       for (const page of pagesToImport) {
-        await new Promise((resolve) => setTimeout(resolve, 10)); // Shorter delay
+        if (ctx.progress?.signal.aborted) break;
+        const result: PageImportResult = { page, pageBlockId: null, rootIds: [], shared: false };
+        results.push(result);
+        ctx.progress?.setPageStatus(page, "importing");
         try {
-          const pageProperties = Object.entries(page.properties).map(
-            ([key, value]) => ({
-              name: key,
-              value: Array.isArray(value) ? value.join(", ") : String(value),
-              type: 1, // PropType.Text
-            })
-          );
-          
-          const pageBlockId = await orca.commands.invokeEditorCommand(
-            "core.editor.insertBlock", null, null, null,
-            [{ t: "t", v: page.name }],
-            { type: "heading", level: 1 }
-          );
-
-          if (!pageBlockId) throw new Error(`创建页面失败: "${page.name}"`);
-          
-          if(pageProperties.length > 0) {
-              await orca.commands.invokeEditorCommand("core.editor.setProperties", null, [pageBlockId], pageProperties);
+          // A page sharing its name with one waiting in the group is merged into it, once it exists.
+          const key = pageKey(page.name);
+          if (ctx.graph.duplicates.has(key) && group.some((waiting) => pageKey(waiting.page.name) === key)) {
+            await insertGroup();
+          }
+          const placement = await ctx.times.measure("定位页面", () => placePage(page, ctx));
+          if (placement.kind === "skipped") {
+            ctx.progress?.setPageStatus(page, "skipped");
+            continue;
           }
+          let pageBlock = placement;
+          if (hasQueryBlocks(page)) {
+            // Queries are translated once, against the page IDs known then, so
+            // the pages waiting in the group and a new page's own heading go
+            // in before it is converted.
+            await insertGroup();
+            if (placement.kind === "new") {
+              const id = await insertPageHeading(page.name, ctx);
+              if (!id) throw new Error(`创建页面失败: "${page.name}"`);
+              pageBlock = { kind: "block", id, shared: false };
+            }
+          }
+          if (pageBlock.kind === "new") {
+            // The group goes in first when the page would take it over budget,
+            // so the page's links to pages of that group resolve.
+            const blocks = page.blocks.reduce((sum, block) => sum + countBlocks(block), 1);
+            if (groupBlocks + blocks > ctx.flow.blockBudget) await insertGroup();
+            const converted = await ctx.times.measure("转换内容", async () => convertPage(page, ctx));
+            group.push({
+              page,
+              result,
+              converted,
+              properties: pageProperties(page, ctx),
+              pendingProperties: hasUnresolvedPropertyRefs(page.properties, ctx),
+            });
+            groupBlocks += blocks;
+            continue; // Reported once its group is inserted
+          }
+          await importIntoPageBlock(page, pageBlock, result, ctx);
+        } catch (e: any) {
+          recordPageError(result, e, ctx);
+        }
+        reportPageResult(result, ctx);
+      }
+      await insertGroup();
+    },
+    { undoable: true, topGroup: true }
+  );
+
+  return results;
+}
 
-          const pageBlock = await orca.invokeBackend("get-block", pageBlockId);
-          if (!pageBlock) throw new Error(`获取页面块失败: "${page.name}"`);
+function hasRefProperty(properties: Record<string, any>, ctx: ImportContext): boolean {
+  return parsedProperties(properties, ctx).some(({ parsed }) => parsed.kind === "refs");
+}
+
+/**
+ * Second pass of the import: once every batch is in, rewrites the blocks whose
+ * `((uuid))` refs, embeds and page links pointed at blocks created later, so
+ * they refer to the real Orca block IDs. Refs that cross pages and batches
+ * resolve here. An embed whose target is still missing keeps its placeholder.
+ */
+export async function linkPendingReferences(ctx: ImportContext) {
+  const pending = ctx.pendingRefBlocks;
+  if (pending.length === 0) return;
+
+  const LINK_BATCH_SIZE = 100;
+  for (let i = 0; i < pending.length; i += LINK_BATCH_SIZE) {
+    const chunk = pending.slice(i, i + LINK_BATCH_SIZE);
+    const updates = chunk
+      .filter(({ block }) => block != null)
+      .map(({ dbId, block }) => ({
+        id: dbId,
+        content: blockToRepr(block!, ctx).content,
+      }));
 
-          if (page.blocks.length > 0) {
-            const blockReprs = convertLogseqBlocksToReprs(page.blocks, graph, assetPathMap);
-            if (blockReprs.length > 0) {
+    try {
+      await orca.commands.invokeGroup(
+        async () => {
+          if (updates.length > 0) {
+            await orca.commands.invokeEditorCommand("core.editor.setBlocksContent", null, updates, false);
+          }
+          for (const { dbId, block, page } of chunk) {
+            if (block?.kind !== "embed") continue;
+            const repr = blockToRepr(block, ctx);
+            if (repr.type === MIRROR_REPR_TYPE) {
               await orca.commands.invokeEditorCommand(
-                "core.editor.batchInsertReprs", null, pageBlock, "lastChild", blockReprs
+                "core.editor.setProperties", null, [dbId], [{ name: "_repr", type: PropType.JSON, value: repr }]
               );
+            } else {
+              ctx.log.push({
+                level: "warn",
+                page: page.name,
+                file: page.file,
+                line: block.line,
+                message: `嵌入的内容未导入，已保留占位文本: ${block.content}`,
+              });
             }
           }
-        } catch (e: any) {
-          console.error(`[Importer] 导入页面 "${page.name}" 失败:`, e);
-          orca.notify("error", `导入页面 "${page.name}" 失败: ${e.message}`);
+          for (const { dbId, properties } of chunk) {
+            if (hasUnresolvedPropertyRefs(properties, ctx) || !hasRefProperty(properties, ctx)) continue;
+            await orca.commands.invokeEditorCommand(
+              "core.editor.setProperties", null, [dbId], convertProperties(properties, ctx)
+            );
+          }
+        },
+        { undoable: true, topGroup: true }
+      );
+    } catch (e: any) {
+      console.error("[Importer] 块引用链接失败:", e);
+      ctx.log.push({ level: "error", page: "", file: "", message: `块引用链接失败: ${e.message}` });
+    }
+  }
+
+  ctx.pendingRefBlocks = [];
+}
+
+/**
+ * Rebuilds Logseq's namespaces as Orca's tag hierarchy, which is made by
+ * tagging a tag with its parent: each page created as `a/b/c` is tagged
+ * with `a/b`, and `a/b` with `a`, so `get-children-tags` lists them.
+ * Namespace levels without a page of their own get an empty one.
+ */
+export async function linkNamespacePages(ctx: ImportContext) {
+  const queue = ctx.namespacePages;
+  if (queue.length === 0) return;
+
+  await orca.commands.invokeGroup(
+    async () => {
+      // Stubs created for missing levels join the queue, so it grows while it is read.
+      for (let i = 0; i < queue.length; i++) {
+        const { name, dbId } = queue[i];
+        const parentName = name.substring(0, name.lastIndexOf("/")).trim();
+        if (!parentName) continue;
+
+        let parentId = ctx.pageIds.get(pageKey(parentName)) ?? (await findAliasBlockId(parentName));
+        if (parentId == null) {
+          parentId = await insertPageHeading(parentName, ctx);
+          if (parentId == null) continue;
+          await orca.commands.invokeEditorCommand("core.editor.createAlias", null, parentName, parentId);
+          ctx.pageIds.set(pageKey(parentName), parentId);
+          ctx.log.push({ level: "info", page: name, file: "", message: `已创建命名空间的上级页面 "${parentName}"` });
         }
+
+        // Tag with the alias the parent block really has, which may differ in case.
+        const parent: Block | null = await orca.invokeBackend("get-block", parentId);
+        const tag = parent?.aliases?.find((alias) => pageKey(alias) === pageKey(parentName)) ?? parentName;
+        await orca.commands.invokeEditorCommand("core.editor.insertTag", null, dbId, tag);
       }
     },
     { undoable: true, topGroup: true }
   );
-}
\ No newline at end of file
+
+  ctx.namespacePages = [];
+}
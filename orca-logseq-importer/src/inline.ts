@@ -0,0 +1,504 @@
+/**
+ * @file inline.ts
+ * @description
+ * Tokenizer for the inline Markdown inside a Logseq block: emphasis, code,
+ * math, links, refs, tags, assets and macros. It produces Orca ContentFragments and
+ * leaves everything that needs the import state (ref targets, uploaded asset
+ * paths) to an InlineResolver. The parse worker, which has no import state,
+ * converts with placeholders that the importer resolves later.
+ */
+
+import { isConvertedMacro, isWebVideo, readMacro, youtubeUrl } from "./macros";
+import type { LogseqMacro } from "./macros";
+import type { ContentFragment } from "./orca.d";
+
+/**
+ * Supplies the fragments that depend on what has been imported so far.
+ */
+export interface InlineResolver {
+  blockRef(uuid: string, sourceText: string): ContentFragment;
+  pageRef(name: string): ContentFragment;
+  asset(path: string, alt: string, attrs: string | undefined, isEmbed: boolean): ContentFragment;
+}
+
+/** A Markdown link or image whose target is a local file, not a URL. */
+export interface LocalLinkTarget {
+  path: string;
+  isEmbed: boolean;
+}
+
+// Orca inline format codes.
+const FORMAT_BOLD = "b";
+const FORMAT_ITALIC = "i";
+const FORMAT_STRIKE = "s";
+const FORMAT_HIGHLIGHT = "h";
+const FORMAT_CODE = "c";
+const FORMAT_LINK = "l";
+
+// Orca's embedded video player, and a web page embedded in the block.
+const FRAGMENT_VIDEO = "video";
+const FRAGMENT_WEB = "web";
+// A ref or asset left for resolveDeferred; never written to Orca.
+const FRAGMENT_DEFERRED = "logseq.deferred";
+
+const DELIMITERS: { token: string; format: string }[] = [
+  { token: "**", format: FORMAT_BOLD },
+  { token: "__", format: FORMAT_BOLD },
+  { token: "~~", format: FORMAT_STRIKE },
+  { token: "==", format: FORMAT_HIGHLIGHT },
+  { token: "^^", format: FORMAT_HIGHLIGHT },
+  { token: "*", format: FORMAT_ITALIC },
+  { token: "_", format: FORMAT_ITALIC },
+];
+
+const ESCAPABLE = "\\`*_{}[]()#+-.!~=^$|<>";
+const URL_SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+const AUTOLINK_REGEX = /^https?:\/\/[^\s<>\[\]]*[^\s<>\[\].,;:!?'")]/;
+const TAG_REGEX = /^#([^\s#,.;:!?"'()\[\]{}]+)/;
+const BLOCK_UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface Style {
+  formats: string[];
+  link?: string;
+  cloze?: boolean; // Inside {{cloze}}; marked so the export can write it back
+}
+
+/** What a deferred fragment stands for: one call of an InlineResolver. */
+type DeferredTarget =
+  | { kind: "blockRef"; uuid: string; sourceText: string }
+  | { kind: "pageRef"; name: string }
+  | { kind: "asset"; path: string; alt: string; attrs?: string; isEmbed: boolean };
+
+/**
+ * A resolver for converting without the import state: each ref and asset
+ * becomes a placeholder that keeps its target and style, for
+ * resolveDeferred to turn into the real fragment.
+ */
+export const deferredResolver: InlineResolver = {
+  blockRef: (uuid, sourceText) => deferred({ kind: "blockRef", uuid, sourceText }),
+  pageRef: (name) => deferred({ kind: "pageRef", name }),
+  asset: (path, alt, attrs, isEmbed) => deferred({ kind: "asset", path, alt, attrs, isEmbed }),
+};
+
+function deferred(target: DeferredTarget): ContentFragment {
+  return { t: FRAGMENT_DEFERRED, v: "", target };
+}
+
+/**
+ * True for targets that leave the graph (http, mailto, zotero, ...).
+ * `file://` paths are local files and count as assets.
+ */
+export function isExternalUrl(target: string): boolean {
+  return URL_SCHEME_REGEX.test(target) && !/^file:/i.test(target);
+}
+
+/**
+ * Finds the index of the bracket that closes the one at `start`, honouring
+ * nesting and escapes. Needed because asset names often contain "(...)".
+ */
+function findClosing(text: string, start: number, open: string, close: string): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === open) {
+      depth++;
+    } else if (ch === close) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+interface MarkdownLink {
+  length: number;
+  isEmbed: boolean;
+  label: string;
+  target: string;
+  attrs?: string;
+}
+
+/**
+ * Reads `[label](target)` or `![alt](target){:width 300}` at `start`.
+ */
+function readMarkdownLink(text: string, start: number): MarkdownLink | null {
+  const isEmbed = text[start] === "!";
+  const labelStart = isEmbed ? start + 1 : start;
+  if (text[labelStart] !== "[" || text[labelStart + 1] === "[") return null;
+
+  const labelEnd = findClosing(text, labelStart, "[", "]");
+  if (labelEnd === -1 || text[labelEnd + 1] !== "(") return null;
+  const targetEnd = findClosing(text, labelEnd + 1, "(", ")");
+  if (targetEnd === -1) return null;
+
+  let end = targetEnd + 1;
+  let attrs: string | undefined;
+  const attrsMatch = text.substring(end).match(/^\s*\{(:[^}]*)\}/);
+  if (attrsMatch) {
+    attrs = attrsMatch[1];
+    end += attrsMatch[0].length;
+  }
+
+  return {
+    length: end - start,
+    isEmbed,
+    label: text.substring(labelStart + 1, labelEnd),
+    target: text.substring(labelEnd + 2, targetEnd).trim(),
+    attrs,
+  };
+}
+
+/**
+ * Lists the local files a block's Markdown links and images point at, so
+ * they can be uploaded before the block is converted.
+ */
+export function collectLocalLinkTargets(text: string): LocalLinkTarget[] {
+  const targets: LocalLinkTarget[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end !== -1) i = end;
+      continue;
+    }
+    const macro = text[i] === "{" ? readMacro(text, i) : null;
+    const macroTarget = macro && localMacroTarget(macro);
+    if (macroTarget) {
+      targets.push(macroTarget);
+      i += macro.source.length - 1;
+      continue;
+    }
+    if (text[i] !== "[" && text[i] !== "!") continue;
+    const link = readMarkdownLink(text, i);
+    if (!link) continue;
+    if (!isExternalUrl(link.target) && !link.target.startsWith("[[") && !link.target.startsWith("((")) {
+      targets.push({ path: link.target, isEmbed: link.isEmbed });
+    }
+    i += link.length - 1;
+  }
+  return targets;
+}
+
+/**
+ * Finds where the delimiter opened at `start` closes, skipping code spans,
+ * escapes and refs. Returns -1 when it is not closed.
+ */
+function findDelimiterClose(text: string, start: number, token: string): number {
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\") {
+      i++;
+      continue;
+    }
+    if (ch === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end === -1) return -1;
+      i = end;
+      continue;
+    }
+    if (text.startsWith("[[", i) || text.startsWith("((", i)) {
+      const end = text.indexOf(text[i] === "[" ? "]]" : "))", i + 2);
+      if (end !== -1) {
+        i = end + 1;
+        continue;
+      }
+    }
+    if (!text.startsWith(token, i) || /\s/.test(text[i - 1])) continue;
+    if (token.length === 1) {
+      // A single * or _ is not the closing half of a ** or __ pair.
+      if (text[i + 1] === token || text[i - 1] === token) continue;
+      // Intraword underscores (snake_case) are not emphasis.
+      if (token === "_" && /\w/.test(text[i + 1] ?? "")) continue;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function withStyle(fragment: ContentFragment, style: Style): ContentFragment {
+  // The style is applied once the placeholder is resolved.
+  if (fragment.t === FRAGMENT_DEFERRED) return { ...fragment, style };
+  if (fragment.t !== "t" && fragment.t !== "r") return fragment;
+  const formats = [...style.formats];
+  if (fragment.f) formats.push(...String(fragment.f).split(","));
+  if (formats.length === 0 && !style.link) return fragment;
+
+  const styled: ContentFragment = { ...fragment };
+  if (style.link && fragment.t === "t") {
+    formats.push(FORMAT_LINK);
+    styled.fa = { ...fragment.fa, l: style.link, t: "_blank" };
+  }
+  if (formats.length > 0) styled.f = Array.from(new Set(formats)).join(",");
+  if (style.cloze) styled.fa = { ...styled.fa, cloze: true };
+  return styled;
+}
+
+/** The local file of a `{{video ../assets/a.mp4}}` or `{{pdf ../assets/a.pdf}}`. */
+function localMacroTarget(macro: LogseqMacro): LocalLinkTarget | null {
+  const name = macro.name.toLowerCase();
+  if ((name !== "video" && name !== "pdf") || !macro.body || isExternalUrl(macro.body)) return null;
+  return { path: macro.body, isEmbed: name === "video" };
+}
+
+/**
+ * Converts a macro inside a block. An embed inside other text is a ref,
+ * a cloze a highlighted span, a video or tweet is embedded and a PDF is a
+ * link to the file. Any other macro stays visible as code.
+ */
+function parseMacro(macro: LogseqMacro, style: Style, resolver: InlineResolver, out: ContentFragment[]) {
+  const emit = (fragment: ContentFragment) => out.push(withStyle(fragment, style));
+  const { body } = macro;
+  const target = macro.args[0] ?? "";
+  const local = localMacroTarget(macro);
+
+  switch (isConvertedMacro(macro) ? macro.name.toLowerCase() : null) {
+    case "embed": {
+      const uuid = body.match(/^\(\((.+?)\)\)/);
+      emit(uuid ? resolver.blockRef(uuid[1].trim(), macro.source) : resolver.pageRef(body.match(/^\[\[(.+?)\]\]/)![1].trim()));
+      return;
+    }
+    case "cloze":
+      parseSpan(body, { ...style, formats: [...style.formats, FORMAT_HIGHLIGHT], cloze: true }, resolver, out);
+      return;
+    case "video":
+      if (local) emit(resolver.asset(local.path, "", undefined, true));
+      else out.push({ t: isWebVideo(target) ? FRAGMENT_WEB : FRAGMENT_VIDEO, v: target });
+      return;
+    case "youtube":
+      out.push({ t: FRAGMENT_WEB, v: youtubeUrl(target) });
+      return;
+    case "tweet":
+    case "twitter":
+      out.push({ t: FRAGMENT_WEB, v: target });
+      return;
+    case "pdf":
+      if (local) emit(resolver.asset(local.path, "", undefined, false));
+      else out.push(withStyle({ t: "t", v: body }, { ...style, link: body }));
+      return;
+  }
+  out.push(withStyle({ t: "t", v: macro.source }, { formats: [...style.formats, FORMAT_CODE], cloze: style.cloze }));
+}
+
+function parseSpan(text: string, style: Style, resolver: InlineResolver, out: ContentFragment[]) {
+  let buffer = "";
+  const flush = () => {
+    if (buffer) {
+      out.push(withStyle({ t: "t", v: buffer }, style));
+      buffer = "";
+    }
+  };
+  const emit = (fragment: ContentFragment) => {
+    flush();
+    out.push(withStyle(fragment, style));
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.substring(i);
+
+    // Backslash escapes
+    if (ch === "\\" && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code: content is kept as is, no refs or tags inside.
+    if (ch === "`") {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        flush();
+        out.push(withStyle({ t: "t", v: text.substring(i + ticks.length, end) }, {
+          formats: [...style.formats, FORMAT_CODE],
+          cloze: style.cloze,
+        }));
+        i = end + ticks.length;
+        continue;
+      }
+    }
+
+    // Inline math: $x^2$, but not $$ and not a lone price like "$5 and $6".
+    if (ch === "$" && text[i + 1] !== "$" && text[i + 1] && !/\s/.test(text[i + 1])) {
+      const end = text.indexOf("$", i + 1);
+      if (end !== -1 && !/\s/.test(text[end - 1]) && !/\d/.test(text[end + 1] ?? "")) {
+        flush();
+        out.push({ t: "math", v: text.substring(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Macros: {{cloze ...}}, {{video ...}}, {{embed ((uuid))}}, ...
+    if (rest.startsWith("{{")) {
+      const macro = readMacro(text, i);
+      if (macro) {
+        flush();
+        parseMacro(macro, style, resolver, out);
+        i += macro.source.length;
+        continue;
+      }
+    }
+
+    // Block reference: ((uuid))
+    if (rest.startsWith("((")) {
+      const end = rest.indexOf("))");
+      const uuid = end !== -1 ? rest.substring(2, end).trim() : "";
+      if (BLOCK_UUID_REGEX.test(uuid)) {
+        emit(resolver.blockRef(uuid, rest.substring(0, end + 2)));
+        i += end + 2;
+        continue;
+      }
+    }
+
+    // Page link or tag: [[...]] or #[[...]]
+    if (rest.startsWith("[[") || rest.startsWith("#[[")) {
+      const startIdx = ch === "#" ? 3 : 2;
+      const end = rest.indexOf("]]", startIdx);
+      if (end !== -1) {
+        emit(resolver.pageRef(rest.substring(startIdx, end)));
+        i += end + 2;
+        continue;
+      }
+    }
+
+    // Markdown links and images
+    if (ch === "[" || (ch === "!" && text[i + 1] === "[")) {
+      const link = readMarkdownLink(text, i);
+      if (link) {
+        flush();
+        if (link.target.startsWith("[[") && link.target.endsWith("]]")) {
+          emit(resolver.pageRef(link.target.slice(2, -2)));
+        } else if (link.target.startsWith("((") && link.target.endsWith("))")) {
+          emit(resolver.blockRef(link.target.slice(2, -2), text.substring(i, i + link.length)));
+        } else if (isExternalUrl(link.target)) {
+          if (link.isEmbed && /\.(png|jpe?g|gif|svg|webp)(\?.*)?$/i.test(link.target)) {
+            out.push({ t: "i", v: link.target, a: link.label });
+          } else {
+            const label = link.label || link.target;
+            parseSpan(label, { ...style, link: link.target }, resolver, out);
+          }
+        } else {
+          emit(resolver.asset(link.target, link.label, link.attrs, link.isEmbed));
+        }
+        i += link.length;
+        continue;
+      }
+    }
+
+    // Bare URLs
+    if (ch === "h" && (i === 0 || !/\w/.test(text[i - 1]))) {
+      const url = rest.match(AUTOLINK_REGEX);
+      if (url) {
+        flush();
+        out.push(withStyle({ t: "t", v: url[0] }, { ...style, link: url[0] }));
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    // Simple tag: #tag, only at a word boundary
+    if (ch === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      const tag = rest.match(TAG_REGEX);
+      if (tag) {
+        emit(resolver.pageRef(tag[1]));
+        i += tag[0].length;
+        continue;
+      }
+    }
+
+    // Emphasis
+    const delimiter = DELIMITERS.find(({ token }) => rest.startsWith(token));
+    if (delimiter && text[i + delimiter.token.length] && !/\s/.test(text[i + delimiter.token.length])) {
+      const opensWord = delimiter.token !== "_" || i === 0 || !/\w/.test(text[i - 1]);
+      const close = opensWord ? findDelimiterClose(text, i + delimiter.token.length, delimiter.token) : -1;
+      if (close !== -1) {
+        flush();
+        parseSpan(
+          text.substring(i + delimiter.token.length, close),
+          { ...style, formats: [...style.formats, delimiter.format] },
+          resolver,
+          out
+        );
+        i = close + delimiter.token.length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+}
+
+function sameStyle(a: ContentFragment, b: ContentFragment): boolean {
+  return a.f === b.f && JSON.stringify(a.fa) === JSON.stringify(b.fa);
+}
+
+/**
+ * Lists the page names a block's Markdown links to with `[[page]]`,
+ * `#[[page]]` or `#tag`, in the order they appear.
+ */
+export function collectPageRefs(text: string): string[] {
+  const names: string[] = [];
+  parseInline(text, {
+    blockRef: (_, sourceText) => ({ t: "t", v: sourceText }),
+    pageRef: (name) => {
+      names.push(name);
+      return { t: "r", v: name };
+    },
+    asset: (path) => ({ t: "t", v: path }),
+  });
+  return names;
+}
+
+/**
+ * Parses the inline Markdown of a block into Orca ContentFragments.
+ */
+export function parseInline(text: string, resolver: InlineResolver): ContentFragment[] {
+  const fragments: ContentFragment[] = [];
+  parseSpan(text, { formats: [] }, resolver, fragments);
+  return mergeFragments(fragments);
+}
+
+/**
+ * Resolves the placeholders of fragments converted with deferredResolver.
+ * The result is what parseInline gives with `resolver` itself.
+ */
+export function resolveDeferred(fragments: ContentFragment[], resolver: InlineResolver): ContentFragment[] {
+  return mergeFragments(
+    fragments.map((fragment) => {
+      if (fragment.t !== FRAGMENT_DEFERRED) return fragment;
+      const target: DeferredTarget = fragment.target;
+      const resolved =
+        target.kind === "blockRef" ? resolver.blockRef(target.uuid, target.sourceText)
+        : target.kind === "pageRef" ? resolver.pageRef(target.name)
+        : resolver.asset(target.path, target.alt, target.attrs, target.isEmbed);
+      return fragment.style ? withStyle(resolved, fragment.style) : resolved;
+    })
+  );
+}
+
+/** The pages deferred fragments link to, as collectPageRefs lists them. */
+export function deferredPageRefs(fragments: ContentFragment[]): string[] {
+  return fragments
+    .filter((fragment) => fragment.t === FRAGMENT_DEFERRED && fragment.target.kind === "pageRef")
+    .map((fragment) => fragment.target.name);
+}
+
+/** Merges neighbouring text fragments that ended up with the same style. */
+function mergeFragments(fragments: ContentFragment[]): ContentFragment[] {
+  const merged: ContentFragment[] = [];
+  for (const fragment of fragments) {
+    const last = merged[merged.length - 1];
+    if (last && last.t === "t" && fragment.t === "t" && sameStyle(last, fragment)) {
+      last.v += fragment.v;
+    } else {
+      merged.push({ ...fragment });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,144 @@
+/**
+ * @file journal.ts
+ * @description
+ * Helpers for Logseq journal dates. Logseq names journal files with one date
+ * format (`yyyy_MM_dd` by default) and titles journal pages with another
+ * (`MMM do, yyyy` by default), so `[[Mar 15th, 2024]]` points at the page
+ * stored in `journals/2024_03_15.md`. Both formats use date-fns tokens.
+ */
+
+export const DEFAULT_JOURNAL_FILE_NAME_FORMAT = "yyyy_MM_dd";
+export const DEFAULT_JOURNAL_TITLE_FORMAT = "MMM do, yyyy";
+
+const MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+const WEEKDAYS = [
+  "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday",
+];
+
+const FORMAT_TOKEN_REGEX = /yyyy|yy|MMMM|MMM|MM|M|do|dd|d|EEEE|EEE|EE|E|'[^']*'/g;
+
+function tokenizeFormat(format: string): string[] {
+  const tokens: string[] = [];
+  let last = 0;
+  for (const match of format.matchAll(FORMAT_TOKEN_REGEX)) {
+    if (match.index! > last) tokens.push(format.substring(last, match.index));
+    tokens.push(match[0]);
+    last = match.index! + match[0].length;
+  }
+  if (last < format.length) tokens.push(format.substring(last));
+  return tokens;
+}
+
+function ordinal(day: number): string {
+  if (day >= 11 && day <= 13) return `${day}th`;
+  switch (day % 10) {
+    case 1: return `${day}st`;
+    case 2: return `${day}nd`;
+    case 3: return `${day}rd`;
+    default: return `${day}th`;
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Formats a date with a date-fns style format string, e.g. "MMM do, yyyy".
+ */
+export function formatJournalDate(date: Date, format: string): string {
+  return tokenizeFormat(format)
+    .map((token) => {
+      switch (token) {
+        case "yyyy": return String(date.getFullYear());
+        case "yy": return String(date.getFullYear()).slice(-2);
+        case "MMMM": return MONTHS[date.getMonth()];
+        case "MMM": return MONTHS[date.getMonth()].substring(0, 3);
+        case "MM": return pad(date.getMonth() + 1);
+        case "M": return String(date.getMonth() + 1);
+        case "do": return ordinal(date.getDate());
+        case "dd": return pad(date.getDate());
+        case "d": return String(date.getDate());
+        case "EEEE": return WEEKDAYS[date.getDay()];
+        case "EEE":
+        case "EE":
+        case "E": return WEEKDAYS[date.getDay()].substring(0, 3);
+        default:
+          return token.startsWith("'") ? token.slice(1, -1) : token;
+      }
+    })
+    .join("");
+}
+
+const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Parses a string written in the given date-fns style format.
+ * Returns null when the text does not match or is not a real calendar date.
+ */
+export function parseJournalDate(text: string, format: string): Date | null {
+  const fields: string[] = [];
+  let pattern = "";
+  for (const token of tokenizeFormat(format)) {
+    switch (token) {
+      case "yyyy": pattern += "(\\d{4})"; fields.push("y"); break;
+      case "yy": pattern += "(\\d{2})"; fields.push("yy"); break;
+      case "MMMM": pattern += `(${MONTHS.join("|")})`; fields.push("MMM"); break;
+      case "MMM": pattern += `(${MONTHS.map((m) => m.substring(0, 3)).join("|")})`; fields.push("MMM"); break;
+      case "MM": pattern += "(\\d{2})"; fields.push("M"); break;
+      case "M": pattern += "(\\d{1,2})"; fields.push("M"); break;
+      case "do": pattern += "(\\d{1,2})(?:st|nd|rd|th)"; fields.push("d"); break;
+      case "dd": pattern += "(\\d{2})"; fields.push("d"); break;
+      case "d": pattern += "(\\d{1,2})"; fields.push("d"); break;
+      case "EEEE": pattern += `(?:${WEEKDAYS.join("|")})`; break;
+      case "EEE":
+      case "EE":
+      case "E": pattern += `(?:${WEEKDAYS.map((w) => w.substring(0, 3)).join("|")})`; break;
+      default:
+        pattern += escapeRegex(token.startsWith("'") ? token.slice(1, -1) : token);
+    }
+  }
+
+  const match = text.trim().match(new RegExp(`^${pattern}$`, "i"));
+  if (!match) return null;
+
+  let year = NaN, month = NaN, day = NaN;
+  fields.forEach((field, i) => {
+    const value = match[i + 1];
+    switch (field) {
+      case "y": year = parseInt(value); break;
+      case "yy": year = 2000 + parseInt(value); break;
+      case "MMM":
+        month = MONTHS.findIndex((m) => m.toLowerCase().startsWith(value.toLowerCase().substring(0, 3)));
+        break;
+      case "M": month = parseInt(value) - 1; break;
+      case "d": day = parseInt(value); break;
+    }
+  });
+
+  if (isNaN(year) || isNaN(month) || isNaN(day)) return null;
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Converts a date to Logseq's numeric journal day, e.g. 20240315.
+ */
+export function toJournalDay(date: Date): number {
+  return date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+}
+
+/**
+ * Converts a numeric journal day (yyyymmdd) back to a local date.
+ */
+export function journalDayToDate(journalDay: number): Date {
+  return new Date(
+    Math.floor(journalDay / 10000),
+    Math.floor((journalDay % 10000) / 100) - 1,
+    journalDay % 100
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * @file macros.ts
+ * @description
+ * Reads Logseq's `{{name arg1, arg2}}` macros. The macros Logseq ships that
+ * the importer can convert are turned into fragments by the inline parser;
+ * the user macros of config.edn's `:macros` are expanded into their text at
+ * parse time, so everything after sees what Logseq would show. Any other
+ * macro is kept as code and listed in the import log.
+ */
+
+/** User macros by name, from config.edn: `{"poem" "Rose is $1, violet's $2"}`. */
+export type MacroDefinitions = Record<string, string>;
+
+export interface LogseqMacro {
+  name: string;
+  body: string; // Everything after the name, e.g. the text of a cloze
+  args: string[]; // The body split at its top-level commas
+  source: string; // The macro as written, braces and all
+}
+
+// Built-in macros the inline parser converts. `embed` only counts with a
+// ((uuid)) or [[page]] argument, see isConvertedMacro.
+const CONVERTED_MACROS = ["embed", "cloze", "video", "youtube", "tweet", "twitter", "pdf"];
+
+// Sites whose pages are embedded as a web page rather than played as a file.
+const WEB_VIDEO_REGEX = /^https?:\/\/(?:[\w-]+\.)?(?:youtube\.com|youtu\.be|vimeo\.com|bilibili\.com|b23\.tv)\//i;
+const YOUTUBE_ID_REGEX = /^[\w-]{11}$/;
+
+// A macro expanding into itself must stop somewhere.
+const MAX_EXPANSION_DEPTH = 10;
+
+/**
+ * Splits the arguments of a macro at the commas that are not inside quotes
+ * or brackets: `{{poem red, blue}}` has two, `{{poem [[a, b]]}}` one.
+ */
+function splitArgs(text: string): string[] {
+  const args: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = "";
+  for (const ch of text) {
+    if (ch === '"') quoted = !quoted;
+    else if (!quoted && "([{".includes(ch)) depth++;
+    else if (!quoted && ")]}".includes(ch)) depth--;
+    if (ch === "," && depth <= 0 && !quoted) {
+      args.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim() || args.length > 0) args.push(current.trim());
+  return args.map((arg) => arg.replace(/^"(.*)"$/, "$1"));
+}
+
+/**
+ * Reads the macro that starts at `start`, with macros nested in its
+ * arguments. Returns null when `{{` does not open a macro there.
+ */
+export function readMacro(text: string, start: number): LogseqMacro | null {
+  if (!text.startsWith("{{", start)) return null;
+  const name = text.substring(start + 2).match(/^\s*([^\s{}]+)/);
+  if (!name) return null;
+
+  let depth = 0;
+  for (let i = start; i < text.length - 1; i++) {
+    if (text.startsWith("{{", i)) {
+      depth++;
+      i++;
+    } else if (text.startsWith("}}", i)) {
+      depth--;
+      if (depth === 0) {
+        const body = text.substring(start + 2 + name[0].length, i).trim();
+        return { name: name[1], body, args: splitArgs(body), source: text.substring(start, i + 2) };
+      }
+      i++;
+    }
+  }
+  return null;
+}
+
+/**
+ * Calls `fn` with each macro of a block, outermost first, skipping code spans.
+ * `fn` returns the text to put in the macro's place, or null to keep it.
+ */
+function replaceMacros(text: string, fn: (macro: LogseqMacro) => string | null): string {
+  let result = "";
+  let i = 0;
+  while (i < text.length) {
+    if (text[i] === "`") {
+      const ticks = text.substring(i).match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        result += text.substring(i, end + ticks.length);
+        i = end + ticks.length;
+        continue;
+      }
+    }
+    const macro = text[i] === "{" ? readMacro(text, i) : null;
+    if (macro) {
+      result += fn(macro) ?? macro.source;
+      i += macro.source.length;
+      continue;
+    }
+    result += text[i];
+    i++;
+  }
+  return result;
+}
+
+/** A user macro with its `$1`, `$2`, ... filled in; missing arguments are empty. */
+function expandMacro(template: string, args: string[]): string {
+  return template.replace(/\$(\d+)/g, (_, n) => args[parseInt(n) - 1] ?? "");
+}
+
+/**
+ * Replaces the user macros of a block with their definitions. Macros their
+ * expansion contains are expanded too, up to a fixed depth.
+ */
+export function expandUserMacros(text: string, definitions: MacroDefinitions): string {
+  if (Object.keys(definitions).length === 0 || !text.includes("{{")) return text;
+  let changed = false;
+  // Other macros keep their braces; user macros in their arguments are expanded.
+  const expandOnce = (text: string): string =>
+    replaceMacros(text, (macro) => {
+      const template = definitions[macro.name];
+      if (template == null) return `{{${expandOnce(macro.source.slice(2, -2))}}}`;
+      changed = true;
+      return expandMacro(template, macro.args);
+    });
+
+  let expanded = text;
+  for (let depth = 0; depth < MAX_EXPANSION_DEPTH; depth++) {
+    changed = false;
+    expanded = expandOnce(expanded);
+    if (!changed) break;
+  }
+  return expanded;
+}
+
+export function isConvertedMacro(macro: LogseqMacro): boolean {
+  const name = macro.name.toLowerCase();
+  if (name === "embed") return /^(\(\(|\[\[)/.test(macro.body);
+  return CONVERTED_MACROS.includes(name) && macro.body !== "";
+}
+
+/** The macros of a block the importer keeps as code, with those nested in converted ones. */
+export function collectUnconvertedMacros(text: string): LogseqMacro[] {
+  const macros: LogseqMacro[] = [];
+  replaceMacros(text, (macro) => {
+    if (!isConvertedMacro(macro)) macros.push(macro);
+    else macros.push(...collectUnconvertedMacros(macro.source.slice(2, -2)));
+    return null;
+  });
+  return macros;
+}
+
+/** True for a `{{video}}` URL that is a page of a video site, not a media file. */
+export function isWebVideo(url: string): boolean {
+  return WEB_VIDEO_REGEX.test(url);
+}
+
+/** The page of a `{{youtube}}` argument, which may be a bare video ID. */
+export function youtubeUrl(arg: string): string {
+  return YOUTUBE_ID_REGEX.test(arg) ? `https://www.youtube.com/watch?v=${arg}` : arg;
+}
@@ -1,53 +1,375 @@
 import { setupL10N, t } from "./libs/l10n";
-import { importPageBatch } from "./importer";
-import { parseLogseqGraph } from "./parser";
+import { analyzeGraph, reportToMarkdown } from "./analysis";
+import { loadParseOptions } from "./config";
+import { exportToLogseq } from "./exporter";
+import type { ExportSelection } from "./exporter";
+import { loadGraph, pageFilesOf } from "./graphLoader";
+import type { LoadedGraph } from "./graphLoader";
+import {
+    createImportContext,
+    findPageCollisions,
+    hasQueryBlocks,
+    importGraphAssets,
+    importPageBatch,
+    linkNamespacePages,
+    linkPendingReferences,
+    reportStage,
+} from "./importer";
+import type { ImportContext, ImportLogEntry, PageCollision, PageImportResult } from "./importer";
+import {
+    findLivePageBlocks,
+    loadImportedBlockUuids,
+    loadManifest,
+    planImport,
+    recoverPendingEntries,
+    saveManifest,
+} from "./manifest";
+import type { ImportManifest } from "./manifest";
+import { pageKey } from "./parser";
+import { createImportProgress, importLogToText } from "./progress";
+import { loadPropertyRules, PROPERTY_RULES_SETTINGS_SCHEMA } from "./propertyRules";
+import type { ImportProgress } from "./progress";
+import { createSession, loadCreatedIds, loadLatestSession, rollbackSession, saveSession } from "./session";
+import type { CollisionStrategy, ImportTarget } from "./session";
 import zhCN from "./translations/zhCN";
-import { ImporterUI } from "./ui";
-import type { LogseqFile } from "./parser";
+import { CollisionReviewUI, ExporterUI, ImporterUI, ImportProgressUI } from "./ui";
+import type { DbId } from "./orca.d";
+import type { GraphSource, LogseqBlock, ParseOptions } from "./parser";
+import { createStepTimes, formatStepTime } from "./timing";
 
 let pluginName: string;
 
-async function startImportProcess(logseqFolder: FileSystemDirectoryHandle, files: LogseqFile[]) {
+const ROLLBACK_ASSETS_SHOWN = 10; // Asset paths listed after a rollback
+
+/**
+ * Writes the outcome of a batch into the manifest, with the Orca IDs of the
+ * page's blocks so later runs can resolve refs into it without re-importing.
+ */
+function recordBatchResults(
+    manifest: ImportManifest,
+    results: PageImportResult[],
+    hashes: Map<string, string>,
+    blockIds: Map<string, DbId>,
+) {
+    for (const { page, pageBlockId, rootIds, shared, error } of results) {
+        const pageBlockIds: Record<string, DbId> = {};
+        const collect = (blocks: LogseqBlock[]) => {
+            for (const block of blocks) {
+                const dbId = block.id ? blockIds.get(block.id) : undefined;
+                if (dbId != null) pageBlockIds[block.id!] = dbId;
+                collect(block.children);
+            }
+        };
+        collect(page.blocks);
+
+        manifest.entries[page.file] = {
+            path: page.file,
+            hash: hashes.get(page.file) ?? "",
+            pageName: page.name,
+            status: error ? "failed" : pageBlockId == null ? "skipped" : "imported",
+            pageBlockId,
+            shared,
+            rootIds,
+            blockIds: pageBlockIds,
+            updatedAt: new Date().toISOString(),
+        };
+    }
+}
+
+/**
+ * Reads and parses what the user picked: the page files of a graph folder,
+ * or a graph export. Returns null after telling the user when there is
+ * nothing to read.
+ */
+async function readGraphSource(
+    source: GraphSource,
+    options: ParseOptions,
+    action: string,
+): Promise<LoadedGraph | null> {
+    if (source.exportFile) {
+        orca.notify("info", `正在读取导出文件 ${source.exportFile.name}，开始${action}...`);
+    } else {
+        const pageFiles = pageFilesOf(source, options);
+        if (pageFiles.length === 0) {
+            orca.notify("warn", "在所选文件夹中没有找到 Markdown (.md) 或 Org (.org) 文件。");
+            return null;
+        }
+        orca.notify("info", `找到了 ${pageFiles.length} 个页面文件，开始${action}...`);
+    }
+    return loadGraph(source, options);
+}
+
+/** Adds the time of each step to the log of the run, which the progress dialog shows at the end. */
+function logStepTimes(ctx: ImportContext) {
+    for (const time of ctx.times.list()) {
+        ctx.log.push({ level: "info", page: "", file: "", message: `耗时 ${formatStepTime(time)}` });
+    }
+}
+
+async function startImportProcess(source: GraphSource, target: ImportTarget) {
+    let ctx: ImportContext | null = null;
+    let progress: ImportProgress | null = null;
     try {
-        const mdFiles = files.filter(f => f.path.endsWith('.md'));
-        if (mdFiles.length === 0) {
-            orca.notify("warn", "在所选文件夹中没有找到 Markdown (.md) 文件。");
+        if (target.parentId != null && !(await orca.invokeBackend("get-block", target.parentId))) {
+            orca.notify("error", `找不到导入目标块: ${target.parentId}`);
             return;
         }
 
-        orca.notify("info", `找到了 ${mdFiles.length} 个 Markdown 文件，开始解析...`);
-        const graph = parseLogseqGraph(mdFiles);
+        const options = await loadParseOptions(source.folder);
+        const times = createStepTimes();
+        const loaded = await times.measure("读取与解析", () => readGraphSource(source, options, "解析"));
+        if (!loaded) return;
+        const { graph, hashes } = loaded;
         const allPages = Array.from(graph.pages.values());
+        const journalCount = allPages.filter(p => p.journalDay).length;
+
+        orca.notify("info", `解析完成: ${allPages.length} 个页面 (其中 ${journalCount} 篇日志)。正在对比上次导入记录...`);
+        const session = createSession(source.name, target);
+        if (session.sessionTag) {
+            // Only a tag the run creates is removed again by a rollback.
+            session.tagCreated = (await orca.invokeBackend("get-blockid-by-alias", session.sessionTag))?.id == null;
+        }
+        ctx = createImportContext(graph, source.folder, options, session);
+        ctx.propertyRules = loadPropertyRules(pluginName);
+        ctx.times = times;
+        for (const path of loaded.unreadable) {
+            ctx.log.push({ level: "error", page: "", file: path, message: "无法读取文件，已跳过" });
+        }
+
+        // The manifest of earlier runs decides what is new, changed or already in Orca.
+        const manifest = await loadManifest(pluginName, source.name);
+        const plan = await times.measure("对比导入记录", async () => {
+            await recoverPendingEntries(manifest, await loadCreatedIds(pluginName));
+            return planImport(graph, hashes, manifest, await findLivePageBlocks(manifest));
+        });
 
-        orca.notify("info", `解析完成: ${allPages.length} 个页面。开始分批导入...`);
+        for (const { page, entry } of plan.unchanged) {
+            for (const name of [page.name, ...page.aliases]) {
+                ctx.pageIds.set(pageKey(name), entry.pageBlockId!);
+            }
+            for (const [uuid, dbId] of Object.entries(entry.blockIds)) {
+                ctx.blockIds.set(uuid, dbId);
+            }
+        }
+        for (const { page, entry } of plan.changed) {
+            ctx.previousImports.set(page, {
+                pageBlockId: entry.pageBlockId!,
+                rootIds: entry.rootIds,
+                shared: entry.shared ?? page.journalDay != null,
+            });
+        }
 
-        const BATCH_SIZE = 50;
-        for (let i = 0; i < allPages.length; i += BATCH_SIZE) {
-            const batch = allPages.slice(i, i + BATCH_SIZE);
-            const currentBatch = i / BATCH_SIZE + 1;
-            const totalBatches = Math.ceil(allPages.length / BATCH_SIZE);
-            
-            orca.notify("info", `开始处理第 ${currentBatch} / ${totalBatches} 批次...`);
-            await importPageBatch(batch, graph, logseqFolder);
-            orca.notify("info", `第 ${currentBatch} / ${totalBatches} 批次完成。总进度: ${Math.min(i + BATCH_SIZE, allPages.length)} / ${allPages.length}`);
+        // New pages whose name is already a page in Orca.
+        let overwritten = 0;
+        if (target.collisionStrategy === "ask") {
+            const collisions = await times.measure("检查重名页面", () => findPageCollisions(plan.added));
+            if (collisions.length > 0) {
+                const decisions = await reviewCollisions(collisions);
+                if (!decisions) {
+                    orca.notify("info", "已取消导入。");
+                    return;
+                }
+                ctx.collisionDecisions = decisions;
+                overwritten = collisions.filter(({ page }) => decisions.get(page.file) === "overwrite").length;
+            }
+        } else {
+            ctx.collisionStrategy = target.collisionStrategy;
+            if (target.collisionStrategy === "overwrite") {
+                overwritten = (await times.measure("检查重名页面", () => findPageCollisions(plan.added))).length;
+            }
+        }
+        // The blocks an overwrite deletes are not part of the session, so a rollback cannot bring them back.
+        if (overwritten > 0 && !window.confirm(`将覆盖虎鲸中 ${overwritten} 个同名页面，删除其中已有的块。此操作不可撤销，撤销导入也无法恢复这些块。确定要继续吗？`)) {
+            orca.notify("info", "已取消导入。");
+            return;
         }
 
-        orca.notify("success", "所有批次导入完成！");
+        // Pages with queries go last, so the pages their queries name already exist.
+        const pagesToImport = [...plan.changed.map(({ page }) => page), ...plan.added];
+        const queryPages = new Set(pagesToImport.filter(hasQueryBlocks));
+        pagesToImport.sort((a, b) => Number(queryPages.has(a)) - Number(queryPages.has(b)));
+
+        // From here on the run reports to its progress dialog.
+        progress = createImportProgress();
+        openDialog(ImportProgressUI, { progress, onSaveLog: saveImportLog });
+        ctx.progress = progress;
+        progress.setPages(pagesToImport);
+        reportStage(ctx, `新增 ${plan.added.length} 个页面，更新 ${plan.changed.length} 个，${plan.unchanged.length} 个未变化将跳过。`);
+
+        // One asset stage for the whole run; every batch shares its path map.
+        manifest.assets ??= {};
+        ctx.assets.hashes = manifest.assets;
+        await times.measure("上传附件", () => importGraphAssets(pagesToImport, ctx!));
+        await saveManifest(pluginName, manifest);
+        await saveSession(pluginName, session);
+
+        const batchSize = target.batchSize;
+        const totalBatches = Math.ceil(pagesToImport.length / batchSize);
+        for (let i = 0; i < pagesToImport.length && !progress.signal.aborted; i += batchSize) {
+            const batch = pagesToImport.slice(i, i + batchSize);
+            const currentBatch = i / batchSize + 1;
+
+            // Mark the batch as in progress so an interrupted run resumes here.
+            const previousEntries = new Map(batch.map((page) => [page, manifest.entries[page.file]]));
+            for (const page of batch) {
+                const previous = previousEntries.get(page);
+                manifest.entries[page.file] = {
+                    path: page.file,
+                    hash: hashes.get(page.file) ?? "",
+                    pageName: page.name,
+                    status: "pending",
+                    pageBlockId: previous?.pageBlockId ?? null,
+                    rootIds: previous?.rootIds ?? [],
+                    blockIds: previous?.blockIds ?? {},
+                    updatedAt: new Date().toISOString(),
+                };
+            }
+            await saveManifest(pluginName, manifest);
+
+            reportStage(ctx, `正在导入第 ${currentBatch} / ${totalBatches} 批...`);
+            const results = await importPageBatch(batch, ctx);
+            recordBatchResults(manifest, results, hashes, ctx.blockIds);
+            // Pages a cancel kept from being imported keep their earlier entry.
+            for (const page of batch.slice(results.length)) {
+                const previous = previousEntries.get(page);
+                if (previous) manifest.entries[page.file] = previous;
+                else delete manifest.entries[page.file];
+            }
+            await saveManifest(pluginName, manifest);
+            await saveSession(pluginName, session);
+        }
+
+        // Links into the pages that made it in are made even after a cancel.
+        if (ctx.pendingRefBlocks.length > 0) {
+            reportStage(ctx, `正在链接 ${ctx.pendingRefBlocks.length} 个含块引用的块...`);
+            await times.measure("链接引用", () => linkPendingReferences(ctx!));
+        }
+        if (ctx.namespacePages.length > 0) {
+            reportStage(ctx, "正在建立命名空间页面的层级...");
+            await times.measure("命名空间层级", () => linkNamespacePages(ctx!));
+        }
+        await saveSession(pluginName, session);
+        logStepTimes(ctx);
+        reportStage(ctx, progress.signal.aborted ? "导入已取消，已导入的页面保留在虎鲸中。" : "导入完成。");
+        progress.finish(ctx.log);
 
     } catch (error) {
         console.error("Logseq import failed:", error);
+        const message = error instanceof Error ? `导入失败: ${error.message}` : "发生未知错误。请检查控制台以获取详细信息。";
+        if (progress) {
+            progress.setStage(message);
+            progress.finish([...(ctx?.log ?? []), { level: "error", page: "", file: "", message }]);
+        } else {
+            orca.notify("error", message);
+        }
+    }
+}
+
+/** Saves the log of an import as a text file, one entry per line. */
+function saveImportLog(log: ImportLogEntry[]) {
+    downloadTextFile("logseq-import-log.txt", importLogToText(log), "text/plain");
+}
+
+function downloadTextFile(fileName: string, text: string, type: string) {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Dry run: parses and converts the graph without touching the Orca repo,
+ * then saves the fidelity report as Markdown and JSON.
+ */
+async function startAnalysisProcess(source: GraphSource) {
+    try {
+        const options = await loadParseOptions(source.folder);
+        const loaded = await readGraphSource(source, options, "分析");
+        if (!loaded) return;
+        const report = await analyzeGraph(loaded.graph, source.folder, options, loadPropertyRules(pluginName));
+
+        downloadTextFile("logseq-import-report.md", reportToMarkdown(report), "text/markdown");
+        downloadTextFile("logseq-import-report.json", JSON.stringify(report, null, 2), "application/json");
+
+        const problems = report.danglingRefs.length + report.missingAssets.length + report.unsupported.length;
+        orca.notify("success", `分析完成: ${report.pages} 个页面, ${report.blocks} 个块, ${problems} 个问题。报告已保存。`);
+    } catch (error) {
+        console.error("Logseq analysis failed:", error);
+        if (error instanceof Error) {
+            orca.notify("error", `分析失败: ${error.message}`);
+        } else {
+            orca.notify("error", "发生未知错误。请检查控制台以获取详细信息。");
+        }
+    }
+}
+
+/**
+ * Deletes everything the most recent import session created.
+ */
+async function rollbackLastImport() {
+    try {
+        const session = await loadLatestSession(pluginName);
+        if (!session) {
+            orca.notify("info", "没有可撤销的导入。");
+            return;
+        }
+
+        if (!window.confirm(`确定要删除 ${session.startedAt} 导入的全部内容 (${session.createdIds.length} 个块) 吗？`)) return;
+
+        const deleted = await rollbackSession(pluginName, session);
+        orca.notify("success", `已撤销导入，删除了 ${deleted} 个块。`);
+        if (session.assets.length > 0) {
+            const shown = session.assets.slice(0, ROLLBACK_ASSETS_SHOWN).join("\n");
+            const more = session.assets.length > ROLLBACK_ASSETS_SHOWN ? `\n等 ${session.assets.length} 个文件` : "";
+            orca.notify("info", `${shown}${more}`, { title: `${session.assets.length} 个已上传的附件文件仍保留在附件文件夹中` });
+        }
+    } catch (error) {
+        console.error("Logseq import rollback failed:", error);
+        if (error instanceof Error) {
+            orca.notify("error", `撤销导入失败: ${error.message}`);
+        } else {
+            orca.notify("error", "发生未知错误。请检查控制台以获取详细信息。");
+        }
+    }
+}
+
+/**
+ * Writes the selected pages into a Logseq graph folder.
+ */
+async function startExportProcess(selection: ExportSelection, folder: FileSystemDirectoryHandle) {
+    try {
+        orca.notify("info", "开始导出到 Logseq...");
+        const result = await exportToLogseq(selection, folder, await loadImportedBlockUuids(pluginName));
+
+        for (const warning of result.warnings) {
+            console.warn(`[Exporter] ${warning}`);
+        }
+        if (result.warnings.length > 0) {
+            orca.notify("warn", `有 ${result.warnings.length} 处内容未能完整导出，详情见控制台。`);
+        }
+        orca.notify("success", `导出完成: ${result.pages} 个页面, ${result.blocks} 个块, ${result.assets} 个附件。`);
+    } catch (error) {
+        console.error("Logseq export failed:", error);
         if (error instanceof Error) {
-            orca.notify("error", `导入失败: ${error.message}`);
+            orca.notify("error", `导出失败: ${error.message}`);
         } else {
             orca.notify("error", "发生未知错误。请检查控制台以获取详细信息。");
         }
     }
 }
 
-function openImporterUI() {
+/**
+ * Shows a dialog of the plugin; only one is open at a time. Returns false
+ * when another dialog is still open. `onClosed` runs when the dialog closes.
+ */
+function openDialog(component: any, props: Record<string, any>, onClosed?: () => void): boolean {
     const existingRoot = document.getElementById("logseq-importer-root");
     if (existingRoot) {
-        return;
+        return false;
     }
 
     const container = document.createElement("div");
@@ -59,30 +381,71 @@ function openImporterUI() {
     const handleClose = () => {
         root.unmount();
         container.remove();
+        onClosed?.();
     };
     
     // @ts-ignore
-    const ui = window.React.createElement(ImporterUI, {
-        onConfirm: startImportProcess,
-        onClose: handleClose,
-    });
+    const ui = window.React.createElement(component, { ...props, onClose: handleClose });
     root.render(ui);
+    return true;
+}
+
+/**
+ * Lets the user pick a strategy for each page collision. Resolves to the
+ * decisions by page file, or null when the review is cancelled.
+ */
+function reviewCollisions(collisions: PageCollision[]): Promise<Map<string, CollisionStrategy> | null> {
+    return new Promise((resolve) => {
+        const opened = openDialog(
+            CollisionReviewUI,
+            { collisions, onConfirm: (decisions: Map<string, CollisionStrategy>) => resolve(decisions) },
+            () => resolve(null),
+        );
+        if (!opened) resolve(null);
+    });
+}
+
+function openImporterUI(
+    onConfirm: (source: GraphSource, target: ImportTarget) => void = startImportProcess,
+    actionLabel?: string,
+    showTarget = true,
+) {
+    openDialog(ImporterUI, { onConfirm, actionLabel, showTarget });
 }
 
 export async function load(_name: string) {
   pluginName = _name;
   setupL10N(orca.state.locale, { "zh-CN": zhCN });
+  await orca.plugins.setSettingsSchema(pluginName, PROPERTY_RULES_SETTINGS_SCHEMA);
 
   orca.commands.registerCommand(
     `${pluginName}.import`,
-    openImporterUI,
+    () => openImporterUI(),
     t("Logseq: 开始导入")
   );
+  orca.commands.registerCommand(
+    `${pluginName}.analyze`,
+    () => openImporterUI(startAnalysisProcess, "选择文件夹开始分析", false),
+    t("Logseq: 分析导入")
+  );
+  orca.commands.registerCommand(
+    `${pluginName}.rollback`,
+    rollbackLastImport,
+    t("Logseq: 撤销上次导入")
+  );
+  orca.commands.registerCommand(
+    `${pluginName}.export`,
+    () => { openDialog(ExporterUI, { onConfirm: startExportProcess }); },
+    t("Logseq: 导出到 Logseq")
+  );
   console.log(`${pluginName} loaded.`);
 }
 
 export async function unload() {
   orca.commands.unregisterCommand(`${pluginName}.import`);
+  orca.commands.unregisterCommand(`${pluginName}.analyze`);
+  orca.commands.unregisterCommand(`${pluginName}.rollback`);
+  orca.commands.unregisterCommand(`${pluginName}.export`);
   const rootEl = document.getElementById("logseq-importer-root");
   if (rootEl) {
     rootEl.remove();
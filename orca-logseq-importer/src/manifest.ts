@@ -0,0 +1,172 @@
+/**
+ * @file manifest.ts
+ * @description
+ * The import manifest records, for every source file of a graph, what an
+ * import run created in Orca. It is kept in the plugin's data store so an
+ * interrupted run can pick up where it stopped, and a later run of the same
+ * graph only imports new pages and replaces the content of changed ones.
+ */
+
+import type { DbId } from "./orca.d";
+import type { LogseqGraph, LogseqPage } from "./parser";
+
+export type ManifestStatus = "pending" | "imported" | "skipped" | "failed";
+
+export interface ManifestEntry {
+  path: string; // Source file path, the key of the entry
+  hash: string; // SHA-256 of the file content
+  pageName: string;
+  status: ManifestStatus;
+  pageBlockId: DbId | null; // The page heading, or the journal block of a journal page
+  shared?: boolean; // The page block was not created by the import: a journal day or a merged Orca page
+  rootIds: DbId[]; // Top-level blocks the import inserted under the page block
+  blockIds: Record<string, DbId>; // Logseq UUID -> Orca block
+  updatedAt: string;
+}
+
+export interface ImportManifest {
+  graph: string; // Name of the graph folder
+  entries: Record<string, ManifestEntry>;
+  assets?: Record<string, string>; // SHA-256 of an uploaded file -> its Orca path, reused by later runs
+}
+
+/** Pages of a graph sorted by what an import run has to do with them. */
+export interface ImportPlan {
+  added: LogseqPage[]; // Never imported, or their Orca page is gone
+  changed: { page: LogseqPage; entry: ManifestEntry }[]; // Content is replaced
+  unchanged: { page: LogseqPage; entry: ManifestEntry }[]; // Left untouched
+}
+
+const MANIFEST_KEY_PREFIX = "manifest:";
+const BLOCK_REF_REGEX = /\(\(([0-9a-f-]{36})\)\)/g;
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function loadManifest(pluginName: string, graph: string): Promise<ImportManifest> {
+  try {
+    const stored = await orca.plugins.getData(pluginName, MANIFEST_KEY_PREFIX + graph);
+    if (typeof stored === "string") {
+      const manifest = JSON.parse(stored) as ImportManifest;
+      if (manifest && manifest.entries) return manifest;
+    }
+  } catch (e) {
+    console.warn(`[Manifest] Could not read the manifest of "${graph}", starting a new one.`, e);
+  }
+  return { graph, entries: {} };
+}
+
+export async function saveManifest(pluginName: string, manifest: ImportManifest) {
+  await orca.plugins.setData(pluginName, MANIFEST_KEY_PREFIX + manifest.graph, JSON.stringify(manifest));
+}
+
+function referencedBlockIds(page: LogseqPage): Set<string> {
+  const uuids = new Set<string>();
+  const visit = (blocks: LogseqPage["blocks"]) => {
+    for (const block of blocks) {
+      for (const match of block.content.matchAll(BLOCK_REF_REGEX)) uuids.add(match[1]);
+      visit(block.children);
+    }
+  };
+  visit(page.blocks);
+  return uuids;
+}
+
+/**
+ * Compares a graph with the manifest of the last run. `hashes` maps file
+ * paths to content hashes and `liveIds` holds the manifest's page blocks
+ * that still exist in Orca.
+ *
+ * Replacing a page gives its blocks new Orca IDs, so unchanged pages with
+ * `((uuid))` refs into a changed page are re-imported too.
+ */
+export function planImport(
+  graph: LogseqGraph,
+  hashes: Map<string, string>,
+  manifest: ImportManifest,
+  liveIds: Set<DbId>,
+): ImportPlan {
+  const plan: ImportPlan = { added: [], changed: [], unchanged: [] };
+
+  for (const page of graph.pages.values()) {
+    const entry = manifest.entries[page.file];
+    if (!entry || entry.pageBlockId == null || !liveIds.has(entry.pageBlockId)) {
+      plan.added.push(page);
+    } else if (entry.status === "imported" && entry.hash === hashes.get(page.file)) {
+      plan.unchanged.push({ page, entry });
+    } else {
+      plan.changed.push({ page, entry });
+    }
+  }
+
+  const replacedUuids = new Set<string>();
+  for (const { entry } of plan.changed) {
+    Object.keys(entry.blockIds).forEach((uuid) => replacedUuids.add(uuid));
+  }
+  let moved = true;
+  while (moved && replacedUuids.size > 0) {
+    moved = false;
+    plan.unchanged = plan.unchanged.filter((item) => {
+      const refs = referencedBlockIds(item.page);
+      if (![...refs].some((uuid) => replacedUuids.has(uuid))) return true;
+      plan.changed.push(item);
+      Object.keys(item.entry.blockIds).forEach((uuid) => replacedUuids.add(uuid));
+      moved = true;
+      return false;
+    });
+  }
+
+  return plan;
+}
+
+/**
+ * Pages a run was creating when it stopped have no page block in the
+ * manifest yet. Their heading is found again by its alias, so the next run
+ * replaces the half-imported page instead of skipping it as already present.
+ * Only a heading an import session created is taken; a page of the same
+ * name the user made in Orca is left to the collision strategy.
+ */
+export async function recoverPendingEntries(manifest: ImportManifest, createdIds: Set<DbId>) {
+  for (const entry of Object.values(manifest.entries)) {
+    if (entry.status !== "pending" || entry.pageBlockId != null) continue;
+    const result = await orca.invokeBackend("get-blockid-by-alias", entry.pageName);
+    if (result?.id != null && createdIds.has(result.id)) entry.pageBlockId = result.id;
+  }
+}
+
+/**
+ * Returns the page blocks of the manifest that still exist in Orca.
+ */
+export async function findLivePageBlocks(manifest: ImportManifest): Promise<Set<DbId>> {
+  const ids = Object.values(manifest.entries)
+    .map((entry) => entry.pageBlockId)
+    .filter((id): id is DbId => id != null);
+  const live = new Set<DbId>();
+  const CHUNK_SIZE = 500;
+  for (let i = 0; i < ids.length; i += CHUNK_SIZE) {
+    const blocks: ({ id: DbId } | null)[] = await orca.invokeBackend("get-blocks", ids.slice(i, i + CHUNK_SIZE));
+    for (const block of blocks ?? []) {
+      if (block) live.add(block.id);
+    }
+  }
+  return live;
+}
+
+/**
+ * The Logseq UUIDs of the blocks every imported graph brought into Orca,
+ * keyed by Orca block. The exporter writes them back as `id::` so refs made
+ * before the migration keep pointing at the same blocks.
+ */
+export async function loadImportedBlockUuids(pluginName: string): Promise<Map<DbId, string>> {
+  const uuids = new Map<DbId, string>();
+  const keys: string[] = await orca.plugins.getDataKeys(pluginName);
+  for (const key of keys.filter((key) => key.startsWith(MANIFEST_KEY_PREFIX))) {
+    const manifest = await loadManifest(pluginName, key.substring(MANIFEST_KEY_PREFIX.length));
+    for (const entry of Object.values(manifest.entries)) {
+      for (const [uuid, dbId] of Object.entries(entry.blockIds)) uuids.set(dbId, uuid);
+    }
+  }
+  return uuids;
+}
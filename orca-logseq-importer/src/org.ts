@@ -0,0 +1,266 @@
+/**
+ * @file org.ts
+ * @description
+ * Parser for the Org-mode pages of a Logseq graph (`:preferred-format :org`).
+ * It produces the same LogseqPage/LogseqBlock model as the Markdown parser:
+ * `*` heading levels are the block hierarchy, `:PROPERTIES:` drawers are
+ * block properties and `#+title`/`#+alias` keywords are page properties.
+ * Inline Org markup is rewritten to the Markdown the rest of the importer
+ * reads, so `[[url][label]]` becomes `[label](url)` and `/italic/` `*italic*`.
+ */
+
+import { isExternalUrl } from "./inline";
+import {
+  appendLine,
+  createPage,
+  finishPage,
+  newBlock,
+  parsePlanningLine,
+  PRIORITY_REGEX,
+  TASK_REGEX,
+} from "./parser";
+import type { LogseqBlock, LogseqBlockKind, LogseqFile, LogseqPage, LogseqTaskMarker, ParseOptions } from "./parser";
+
+const HEADING_REGEX = /^(\*+)(?:\s+(.*))?$/;
+const KEYWORD_REGEX = /^#\+([A-Za-z_-]+):\s*(.*)$/;
+const DRAWER_PROPERTY_REGEX = /^:([^\s:]+):\s*(.*)$/;
+const HEADING_TAGS_REGEX = /\s+:((?:[\w@#%]+:)+)\s*$/;
+const PLANNING_ITEM_REGEX = /(SCHEDULED|DEADLINE|CLOSED):\s*[<[][^>\]]*[>\]]/g;
+const IMAGE_REGEX = /\.(png|jpe?g|gif|svg|webp|bmp)$/i;
+
+// Links first, then emphasis with Org's rules for what may surround a marker.
+const ORG_INLINE_REGEX =
+  /\[\[([^\]]+)\](?:\[([^\]]*)\])?\]|(^|[\s\-({'"])([*/+~=])([^\s*/+~=](?:.*?[^\s])?)\4(?=$|[\s\-.,:!?;'")}[])/g;
+
+const EMPHASIS: Record<string, string> = { "*": "**", "/": "*", "+": "~~" };
+
+interface OrgSection {
+  kind: Exclude<LogseqBlockKind, "text">;
+  open: RegExp; // Captures an optional language
+  close: RegExp;
+}
+
+const SECTIONS: OrgSection[] = [
+  { kind: "code", open: /^#\+BEGIN_SRC\s*(\S*).*$/i, close: /^#\+END_SRC\s*$/i },
+  { kind: "code", open: /^#\+BEGIN_EXAMPLE()\s*$/i, close: /^#\+END_EXAMPLE\s*$/i },
+  { kind: "quote", open: /^#\+BEGIN_QUOTE\s*$/i, close: /^#\+END_QUOTE\s*$/i },
+  { kind: "query", open: /^#\+BEGIN_QUERY\s*$/i, close: /^#\+END_QUERY\s*$/i },
+];
+
+interface OpenSection {
+  syntax: OrgSection;
+  lang: string;
+  prefix: string; // Whitespace to strip from every body line
+  line: number;
+  lines: string[];
+}
+
+function orgLink(target: string, label: string | undefined): string {
+  const text = label ? orgInlineToMarkdown(label) : "";
+  if (/^id:/i.test(target)) return `((${target.substring(3).trim()}))`;
+
+  const isFile = /^file:/i.test(target) || /^\.{0,2}\//.test(target);
+  if (isFile || isExternalUrl(target)) {
+    const url = target.replace(/^file:/i, "");
+    if (!label && IMAGE_REGEX.test(url)) return `![](${url})`;
+    return `[${text || url}](${url})`;
+  }
+  return label && label !== target ? `[${text}]([[${target}]])` : `[[${target}]]`;
+}
+
+/**
+ * Rewrites the inline Org markup of a line as Logseq Markdown. Page refs,
+ * block refs and tags are written the same way in both formats.
+ */
+export function orgInlineToMarkdown(text: string): string {
+  return text.replace(ORG_INLINE_REGEX, (_, target, label, before, marker, inner) => {
+    if (target != null) return orgLink(target, label);
+    if (marker === "~" || marker === "=") {
+      const ticks = inner.includes("`") ? "``" : "`";
+      return `${before}${ticks}${inner}${ticks}`;
+    }
+    const token = EMPHASIS[marker];
+    return `${before}${token}${orgInlineToMarkdown(inner)}${token}`;
+  });
+}
+
+/**
+ * A planning line holds one or more `SCHEDULED:`, `DEADLINE:` and `CLOSED:`
+ * stamps and nothing else. CLOSED is dropped, as the Markdown parser does.
+ */
+function readPlanning(line: string, block: LogseqBlock): boolean {
+  const items = line.match(PLANNING_ITEM_REGEX);
+  if (!items || line.replace(PLANNING_ITEM_REGEX, "").trim()) return false;
+  for (const item of items) {
+    const planning = parsePlanningLine(item);
+    if (planning?.kind === "SCHEDULED") block.scheduled = planning.date;
+    else if (planning?.kind === "DEADLINE") block.deadline = planning.date;
+  }
+  return true;
+}
+
+/**
+ * Parses an Org file of a Logseq graph into a LogseqPage.
+ *
+ * Each `*` heading is a block, nested under the closest heading with fewer
+ * stars, and the text below it continues the block. A `:PROPERTIES:` drawer
+ * under a heading holds its properties (`:id:` is the block UUID); before
+ * the first heading it and the `#+keyword:` lines hold the page properties.
+ *
+ * @param file The LogseqFile object to parse.
+ * @param options Graph-wide parsing options.
+ * @returns A LogseqPage object.
+ */
+export function parseOrgFile(file: LogseqFile, options: ParseOptions): LogseqPage {
+  const page = createPage(file, options);
+  readOrgBlocks(file.content, page);
+  return finishPage(page, options);
+}
+
+/**
+ * Reads the headings of Org text into `page.blocks`, and the keywords and
+ * drawer before the first heading into the page.
+ */
+export function readOrgBlocks(content: string, page: LogseqPage) {
+  const headingStack: { block: LogseqBlock; stars: number }[] = [];
+  let currentBlock: LogseqBlock | null = null; // The heading block being read
+  let textBlock: LogseqBlock | null = null; // Where continuation text goes
+  let section: OpenSection | null = null;
+  let drawer: { properties: Record<string, any> | null; logbook: string[] | null } | null = null;
+
+  const addChild = (parent: LogseqBlock | null, child: LogseqBlock) => {
+    (parent ? parent.children : page.blocks).push(child);
+  };
+
+  const closeSection = (open: OpenSection) => {
+    const body = open.lines.join("\n");
+    const owner = currentBlock;
+    if (owner && owner.kind === "text" && !owner.content && owner.children.length === 0) {
+      // A heading without a title holding only the section is the section.
+      owner.kind = open.syntax.kind;
+      owner.content = body;
+      if (open.lang) owner.lang = open.lang;
+      textBlock = null;
+      return;
+    }
+    const block = newBlock(owner ? owner.level + 1 : 0, open.line, open.syntax.kind);
+    block.content = body;
+    if (open.lang) block.lang = open.lang;
+    addChild(owner, block);
+  };
+
+  const lines = content.split(/\r?\n/);
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    const lineNumber = lineIndex + 1;
+    const trimmedLine = line.trim();
+
+    if (section) {
+      if (section.syntax.close.test(trimmedLine)) {
+        closeSection(section);
+        section = null;
+      } else {
+        section.lines.push(line.startsWith(section.prefix) ? line.substring(section.prefix.length) : line.trimStart());
+      }
+      continue;
+    }
+
+    if (drawer) {
+      if (trimmedLine.toUpperCase() === ":END:") {
+        if (drawer.logbook && currentBlock) currentBlock.logbook = drawer.logbook;
+        drawer = null;
+        continue;
+      }
+      const property = drawer.properties ? trimmedLine.match(DRAWER_PROPERTY_REGEX) : null;
+      if (property) {
+        const name = property[1].toLowerCase();
+        if (name === "id" && currentBlock) currentBlock.id = property[2].trim();
+        else drawer.properties![name] = property[2];
+      } else if (drawer.logbook && trimmedLine) {
+        drawer.logbook.push(trimmedLine);
+      }
+      continue;
+    }
+
+    const heading = line.match(HEADING_REGEX);
+    if (heading) {
+      const stars = heading[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].stars >= stars) {
+        headingStack.pop();
+      }
+      const parent = headingStack.length > 0 ? headingStack[headingStack.length - 1].block : null;
+      const block = newBlock(headingStack.length, lineNumber);
+      addChild(parent, block);
+      headingStack.push({ block, stars });
+      currentBlock = textBlock = block;
+
+      let title = (heading[2] ?? "").trim();
+      const taskMatch = title.match(TASK_REGEX);
+      if (taskMatch) {
+        block.marker = taskMatch[1] as LogseqTaskMarker;
+        title = title.substring(taskMatch[0].length);
+        const priorityMatch = title.match(PRIORITY_REGEX);
+        if (priorityMatch) {
+          block.priority = priorityMatch[1] as "A" | "B" | "C";
+          title = title.replace(PRIORITY_REGEX, " ").trim();
+        }
+      }
+      // Heading tags (`:work:urgent:`) are Logseq tags.
+      const tags = title.match(HEADING_TAGS_REGEX);
+      if (tags) {
+        const names = tags[1].split(":").filter(Boolean);
+        title = `${title.substring(0, tags.index)} ${names.map((name) => `#${name}`).join(" ")}`.trim();
+      }
+      if (title) appendLine(block, orgInlineToMarkdown(title));
+      continue;
+    }
+
+    if (!trimmedLine) {
+      if (textBlock?.content) appendLine(textBlock, "");
+      continue;
+    }
+
+    const upper = trimmedLine.toUpperCase();
+    if (upper === ":PROPERTIES:") {
+      drawer = { properties: currentBlock ? currentBlock.properties : page.properties, logbook: null };
+      continue;
+    }
+    if (upper === ":LOGBOOK:" && currentBlock) {
+      drawer = { properties: null, logbook: [] };
+      continue;
+    }
+    if (currentBlock && readPlanning(trimmedLine, currentBlock)) continue;
+
+    const syntax = SECTIONS.find((candidate) => candidate.open.test(trimmedLine));
+    if (syntax) {
+      section = {
+        syntax,
+        lang: trimmedLine.match(syntax.open)?.[1] ?? "",
+        prefix: line.match(/^\s*/)![0],
+        line: lineNumber,
+        lines: [],
+      };
+      continue;
+    }
+
+    // #+title, #+alias, #+tags and other keywords before the first heading.
+    const keyword = !currentBlock && page.blocks.length === 0 ? trimmedLine.match(KEYWORD_REGEX) : null;
+    if (keyword) {
+      const name = keyword[1].toLowerCase();
+      if (name === "title" && keyword[2].trim() && !page.journalDay) page.name = keyword[2].trim();
+      else if (name !== "title") page.properties[name] = keyword[2];
+      continue;
+    }
+
+    if (!textBlock) {
+      // Content before the first heading, or after a section that replaced its heading.
+      textBlock = newBlock(currentBlock ? currentBlock.level + 1 : 0, lineNumber);
+      addChild(currentBlock, textBlock);
+      if (!currentBlock) currentBlock = textBlock;
+    }
+    appendLine(textBlock, orgInlineToMarkdown(trimmedLine));
+  }
+
+  // An unterminated section keeps whatever it collected.
+  if (section) closeSection(section);
+}
@@ -0,0 +1,22 @@
+/**
+ * @file parseWorker.ts
+ * @description
+ * Entry of the parse worker. It reads and parses a graph off the main thread,
+ * so Orca stays responsive while a large graph loads, and posts the pages
+ * back in chunks as they are parsed.
+ */
+
+import { readGraph } from "./graphReader";
+import type { ParseRequest, ParseResponse } from "./graphReader";
+
+const scope = self as unknown as Worker;
+const post = (response: ParseResponse) => scope.postMessage(response);
+
+scope.onmessage = async (event: MessageEvent<ParseRequest>) => {
+  try {
+    await readGraph(event.data, (chunk) => post({ type: "chunk", chunk }));
+    post({ type: "done" });
+  } catch (e) {
+    post({ type: "error", message: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -5,6 +5,19 @@
  * It is responsible for reading files, parsing blocks, and extracting metadata.
  */
 
+import {
+  DEFAULT_JOURNAL_FILE_NAME_FORMAT,
+  DEFAULT_JOURNAL_TITLE_FORMAT,
+  formatJournalDate,
+  parseJournalDate,
+  toJournalDay,
+} from "./journal";
+import { expandUserMacros } from "./macros";
+import type { ContentFragment } from "./orca.d";
+import type { MacroDefinitions } from "./macros";
+import { parseOrgFile } from "./org";
+import { CARD_FIELDS } from "./properties";
+
 // Note: In Orca's plugin environment, we cannot directly access the file system.
 // We will need to use a method provided by the Orca API to get file handles
 // or content, which we'll implement in a later stage (UI interaction).
@@ -15,126 +28,641 @@ export interface LogseqFile {
   content: string;
 }
 
+/** What the user picked to import: a graph folder, or a JSON/EDN export of a graph. */
+export interface GraphSource {
+  name: string; // Name of the graph, the key of its manifest
+  folder: FileSystemDirectoryHandle | null; // Graph folder with assets/ and logseq/config.edn
+  files: string[]; // Paths of the page files in the folder, read when the graph is parsed
+  exportFile: File | null; // A graph export, read instead of the page files
+}
+
+export type LogseqBlockKind = "text" | "code" | "quote" | "math" | "query" | "embed";
+
 export interface LogseqBlock {
   id: string | null; // The UUID if it exists
-  content: string; // The raw text content of the block
+  kind: LogseqBlockKind;
+  lang?: string; // Language of a code block
+  content: string; // The raw text content of the block, lines joined with "\n"; the query of a query block
   properties: Record<string, any>; // Block properties like key:: value
   children: LogseqBlock[];
   level: number; // Indentation level
+  line: number; // 1-based line in the source file where the block starts
+  marker?: LogseqTaskMarker; // Task state, e.g. TODO or DONE
+  priority?: "A" | "B" | "C"; // From [#A] on a task
+  scheduled?: Date; // From a SCHEDULED: <...> line
+  deadline?: Date; // From a DEADLINE: <...> line
+  logbook?: string[]; // Lines of the :LOGBOOK: drawer, e.g. CLOCK entries
+  highlight?: LogseqHighlight; // Set on the highlight blocks of an hls__ page
+  embed?: LogseqEmbed; // Set on embed blocks
+  card?: LogseqCard; // Set on `#card` flashcards
+  fragments?: ContentFragment[]; // Inline content converted by the graph reader, refs and assets deferred
+  pageRefs?: string[]; // Pages the inline content links to, from the graph reader
+}
+
+/** The target of a `{{embed ...}}` block: a block UUID or a page name. */
+export interface LogseqEmbed {
+  uuid?: string;
+  page?: string;
+}
+
+/** The review state of a flashcard, from its `card-*` properties; empty for a new card. */
+export interface LogseqCard {
+  nextReview?: Date; // card-next-schedule
+  lastReviewed?: Date; // card-last-reviewed
+  interval?: number; // card-last-interval, in days
+  repeats?: number; // card-repeats
+  easeFactor?: number; // card-ease-factor
+  lastScore?: number; // card-last-score
 }
 
+/** A PDF highlight, from the `ls-type:: annotation` block properties. */
+export interface LogseqHighlight {
+  pdf: string; // Path of the highlighted PDF, as in `file-path::`
+  page: number; // `hl-page::`, 1-based
+  color?: string; // `hl-color::`, e.g. yellow
+}
+
+export type LogseqTaskMarker =
+  | "TODO" | "DOING" | "DONE" | "LATER" | "NOW"
+  | "WAITING" | "WAIT" | "IN-PROGRESS" | "CANCELED" | "CANCELLED";
+
 export interface LogseqPage {
   name: string; // The note's title, derived from the file name
+  file: string; // Path of the source file
   properties: Record<string, any>; // Page-level properties from the top of the file
   blocks: LogseqBlock[];
+  journalDay?: number; // Set for journal pages, e.g. 20240315
+  aliases: string[]; // From the `alias::` page property
+  tags: string[]; // From the `tags::` page property
+  pdf?: string; // For hls__ pages, the `file-path::` of the highlighted PDF
 }
 
 export interface LogseqGraph {
-  pages: Map<string, LogseqPage>;
+  pages: Map<string, LogseqPage>; // File -> page; pages with the same name are all kept
   blocks: Map<string, LogseqBlock>; // UUID -> Block
+  names: Map<string, string>; // pageKey(name) -> page name
+  aliases: Map<string, string>; // pageKey(alias) -> page name
+  duplicates: Map<string, string[]>; // pageKey(name) -> files, for names used by more than one file
+}
+
+/** Graph-wide settings, from the graph's `logseq/config.edn` when it has one. */
+export interface ParseOptions {
+  journalFileNameFormat: string; // date-fns format of journal file names
+  journalTitleFormat: string; // date-fns format of journal page titles
+  preferredFormat: "markdown" | "org"; // Format of the graph's files
+  tabWidth: number; // Spaces a tab counts as when a file mixes tabs and spaces
+  hiddenPaths: string[]; // Graph-relative folders and files Logseq does not read
+  hiddenProperties: string[]; // Block properties Logseq does not show; dropped
+  ignoredRefProperties: string[]; // Properties whose values are not page refs
+  listProperties: string[]; // Properties whose comma-separated values are lists
+  propertyPages: boolean; // Whether property names get pages of their own
+  propertyPagesExcluded: string[]; // Property names that never get a page
+  macros: MacroDefinitions; // User macros from `:macros`, expanded into block text
+}
+
+export const DEFAULT_PARSE_OPTIONS: ParseOptions = {
+  journalFileNameFormat: DEFAULT_JOURNAL_FILE_NAME_FORMAT,
+  journalTitleFormat: DEFAULT_JOURNAL_TITLE_FORMAT,
+  preferredFormat: "markdown",
+  tabWidth: 2,
+  hiddenPaths: ["logseq/bak", "logseq/version-files", "version-files", ".recycle"],
+  hiddenProperties: [],
+  ignoredRefProperties: [],
+  listProperties: ["tags", "alias"],
+  propertyPages: false,
+  propertyPagesExcluded: [],
+  macros: {},
+};
+
+const PROPERTY_REGEX = /^([^\s:]+):: (.+)$/;
+const BULLET_REGEX = /^-(?:\s|$)/;
+export const TASK_REGEX = /^(TODO|DOING|DONE|LATER|NOW|WAITING|WAIT|IN-PROGRESS|CANCELED|CANCELLED)(?:\s+|$)/;
+export const PRIORITY_REGEX = /\s*\[#([ABC])\]\s*/;
+const PLANNING_REGEX = /^(SCHEDULED|DEADLINE):\s*<(\d{4})-(\d{2})-(\d{2})(?:\s+[^\s\d>]+)?(?:\s+(\d{1,2}):(\d{2}))?[^>]*>\s*$/;
+const PAGE_FILE_REGEX = /\.(md|org)$/i;
+const SIMPLE_QUERY_REGEX = /^\{\{query\s+([\s\S]*)\}\}$/;
+const EMBED_REGEX = /^\{\{embed\s+(?:\(\(([0-9a-fA-F-]{36})\)\)|\[\[(.+?)\]\])\s*\}\}$/;
+const HLS_PREFIX = "hls__";
+const AREA_HIGHLIGHT_DIR = "../assets/"; // Logseq keeps area screenshots in assets/<pdf name>/
+const HIGHLIGHT_PROPERTIES = ["ls-type", "hl-page", "hl-color", "hl-type", "hl-stamp"];
+const CARD_TAG_REGEX = /(^|\s)#(?:card|\[\[card\]\])(?=\s|$)/gi;
+const CARD_PROPERTY_PREFIX = "card-";
+
+/**
+ * Multi-line sections inside a block that become a block of their own.
+ */
+interface SectionSyntax {
+  kind: Exclude<LogseqBlockKind, "text">;
+  open: RegExp; // Captures an optional language
+  close: RegExp;
+}
+
+const SECTIONS: SectionSyntax[] = [
+  { kind: "code", open: /^```\s*(\S*).*$/, close: /^```\s*$/ },
+  { kind: "code", open: /^#\+BEGIN_SRC\s*(\S*).*$/i, close: /^#\+END_SRC\s*$/i },
+  { kind: "quote", open: /^#\+BEGIN_QUOTE\s*$/i, close: /^#\+END_QUOTE\s*$/i },
+  { kind: "query", open: /^#\+BEGIN_QUERY\s*$/i, close: /^#\+END_QUERY\s*$/i },
+  { kind: "math", open: /^\$\$\s*$/, close: /^\$\$\s*$/ },
+];
+
+interface OpenSection {
+  syntax: SectionSyntax;
+  lang: string;
+  prefix: string; // Whitespace to strip from every body line
+  line: number; // Line of the opening delimiter
+  lines: string[];
+}
+
+/**
+ * Normalises a page name the way Logseq compares them: case, Unicode
+ * composition, runs of whitespace and spaces around a namespace `/` do not
+ * matter, so `[[Foo Bar]]`, `[[foo  bar]]` and `[[a / b]]`/`[[A/b]]` match.
+ */
+export function pageKey(name: string): string {
+  return name.normalize("NFC").trim().replace(/\s+/g, " ").replace(/ ?\/ ?/g, "/").toLowerCase();
+}
+
+/**
+ * Splits a page-list property such as `alias:: A, [[B]], #C` into page names.
+ * Logseq accepts both ASCII and full-width commas.
+ */
+export function parsePageList(value: string): string[] {
+  const names: string[] = [];
+  for (const match of value.matchAll(/#?\[\[([^\]]+)\]\]|[^,，\s][^,，]*/g)) {
+    const name = (match[1] ?? match[0]).trim().replace(/^#/, "");
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+function indentWidth(whitespace: string, tabWidth: number): number {
+  let width = 0;
+  for (const ch of whitespace) width += ch === "\t" ? tabWidth : 1;
+  return width;
+}
+
+/** Whether a file is a page: Markdown or Org. */
+export function isPageFile(path: string): boolean {
+  return PAGE_FILE_REGEX.test(path);
+}
+
+/**
+ * Whether Logseq skips a file: anything under a hidden folder of the options,
+ * written with or without a leading slash, or under a dot folder.
+ */
+export function isHiddenPath(path: string, options: ParseOptions = DEFAULT_PARSE_OPTIONS): boolean {
+  if (path.split("/").slice(0, -1).some((segment) => segment.startsWith("."))) return true;
+  return options.hiddenPaths.some((hidden) => {
+    const prefix = hidden.replace(/^\/+|\/+$/g, "");
+    return prefix !== "" && (path === prefix || path.startsWith(`${prefix}/`));
+  });
+}
+
+export function newBlock(level: number, line: number, kind: LogseqBlockKind = "text"): LogseqBlock {
+  return { id: null, kind, content: "", properties: {}, children: [], level, line };
+}
+
+/**
+ * Reads a `SCHEDULED: <2024-03-15 Fri 10:00 .+1w>` or `DEADLINE:` line.
+ * Repeaters and warning periods are ignored.
+ */
+export function parsePlanningLine(line: string): { kind: "SCHEDULED" | "DEADLINE"; date: Date } | null {
+  const match = line.match(PLANNING_REGEX);
+  if (!match) return null;
+  const [, kind, year, month, day, hour, minute] = match;
+  const date = new Date(
+    parseInt(year), parseInt(month) - 1, parseInt(day),
+    hour ? parseInt(hour) : 0, minute ? parseInt(minute) : 0
+  );
+  return { kind: kind as "SCHEDULED" | "DEADLINE", date };
 }
 
-const PROPERTY_REGEX = /^(\w+):: (.+)$/;
-const ID_REGEX = /^id:: (.+)$/;
-const BLOCK_CONTENT_REGEX = /^- (.+)/;
+export function appendLine(block: LogseqBlock, line: string) {
+  block.content = block.content ? `${block.content}\n${line}` : line;
+}
 
 /**
  * Parses a single Logseq file into a structured LogseqPage object.
  *
+ * The tokenizer tracks indentation by width instead of assuming two spaces,
+ * so tabs, spaces and mixed indentation all nest correctly. Lines that are
+ * not bullets continue the current block, and fenced code, `#+BEGIN_SRC`,
+ * `#+BEGIN_QUOTE` and `$$` sections are kept verbatim as one block each.
+ *
  * @param file The LogseqFile object to parse.
+ * @param options Graph-wide parsing options.
  * @returns A LogseqPage object.
  */
-export function parseLogseqFile(file: LogseqFile): LogseqPage {
+export function parseLogseqFile(
+  file: LogseqFile,
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS
+): LogseqPage {
+  const page = createPage(file, options);
+  readMarkdownBlocks(file.content, page, options);
+  return finishPage(page, options);
+}
+
+/**
+ * Reads the bullets of Markdown text into `page.blocks`, and the properties
+ * before the first bullet into `page.properties`.
+ */
+export function readMarkdownBlocks(content: string, page: LogseqPage, options: ParseOptions) {
+  const blockStack: { block: LogseqBlock; indent: number }[] = [];
+  let currentBlock: LogseqBlock | null = null; // The bullet block being read
+  let textBlock: LogseqBlock | null = null; // Where continuation text goes
+  let section: OpenSection | null = null;
+  let logbook: string[] | null = null;
+
+  const addChild = (parent: LogseqBlock | null, child: LogseqBlock) => {
+    (parent ? parent.children : page.blocks).push(child);
+  };
+
+  const closeSection = (open: OpenSection) => {
+    const body = open.lines.join("\n");
+    const owner = currentBlock;
+    if (owner && owner.kind === "text" && !owner.content && owner.children.length === 0) {
+      // The bullet itself opens the section: the whole block is the section.
+      owner.kind = open.syntax.kind;
+      owner.content = body;
+      if (open.lang) owner.lang = open.lang;
+      textBlock = null;
+      return;
+    }
+    const block = newBlock(owner ? owner.level + 1 : 0, open.line, open.syntax.kind);
+    block.content = body;
+    if (open.lang) block.lang = open.lang;
+    addChild(owner, block);
+  };
+
+  const lines = content.split(/\r?\n/);
+  for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    const lineNumber = lineIndex + 1;
+    if (section) {
+      if (section.syntax.close.test(line.trim())) {
+        closeSection(section);
+        section = null;
+      } else {
+        section.lines.push(line.startsWith(section.prefix) ? line.substring(section.prefix.length) : line.trimStart());
+      }
+      continue;
+    }
+
+    if (logbook) {
+      if (line.trim().toUpperCase() === ":END:") {
+        if (currentBlock) currentBlock.logbook = logbook;
+        logbook = null;
+      } else if (line.trim()) {
+        logbook.push(line.trim());
+      }
+      continue;
+    }
+
+    const leading = line.match(/^\s*/)![0];
+    let trimmedLine = line.trim();
+    if (!trimmedLine) {
+      if (textBlock?.content) appendLine(textBlock, "");
+      continue;
+    }
+
+    let contentPrefix = leading;
+    if (BULLET_REGEX.test(trimmedLine)) {
+      const indent = indentWidth(leading, options.tabWidth);
+      while (blockStack.length > 0 && blockStack[blockStack.length - 1].indent >= indent) {
+        blockStack.pop();
+      }
+      const parent = blockStack.length > 0 ? blockStack[blockStack.length - 1].block : null;
+      const block = newBlock(blockStack.length, lineNumber);
+      addChild(parent, block);
+      blockStack.push({ block, indent });
+      currentBlock = textBlock = block;
+
+      trimmedLine = trimmedLine.substring(1).trimStart();
+      contentPrefix = leading + "  ";
+
+      const taskMatch = trimmedLine.match(TASK_REGEX);
+      if (taskMatch) {
+        block.marker = taskMatch[1] as LogseqTaskMarker;
+        trimmedLine = trimmedLine.substring(taskMatch[0].length);
+        const priorityMatch = trimmedLine.match(PRIORITY_REGEX);
+        if (priorityMatch) {
+          block.priority = priorityMatch[1] as "A" | "B" | "C";
+          trimmedLine = trimmedLine.replace(PRIORITY_REGEX, " ").trim();
+        }
+      }
+      if (!trimmedLine) continue;
+    } else if (!currentBlock) {
+      // Lines before the first bullet are page properties, or content of a
+      // page written without bullets.
+      const match = trimmedLine.match(PROPERTY_REGEX);
+      if (match && page.blocks.length === 0) {
+        page.properties[match[1]] = match[2];
+        continue;
+      }
+      currentBlock = textBlock = newBlock(0, lineNumber);
+      page.blocks.push(currentBlock);
+      blockStack.push({ block: currentBlock, indent: indentWidth(leading, options.tabWidth) });
+    } else {
+      if (trimmedLine.toUpperCase() === ":LOGBOOK:") {
+        logbook = [];
+        continue;
+      }
+      const planning = parsePlanningLine(trimmedLine);
+      if (planning) {
+        if (planning.kind === "SCHEDULED") currentBlock.scheduled = planning.date;
+        else currentBlock.deadline = planning.date;
+        continue;
+      }
+      const propMatch = trimmedLine.match(PROPERTY_REGEX);
+      if (propMatch) {
+        if (propMatch[1] === "id") {
+          currentBlock.id = propMatch[2].trim();
+        } else {
+          currentBlock.properties[propMatch[1]] = propMatch[2];
+        }
+        continue;
+      }
+    }
+
+    const singleLineMath = trimmedLine.match(/^\$\$(.+)\$\$$/);
+    if (singleLineMath) {
+      closeSection({ syntax: SECTIONS[SECTIONS.length - 1], lang: "", prefix: "", line: lineNumber, lines: [singleLineMath[1]] });
+      continue;
+    }
+
+    const syntax = SECTIONS.find((candidate) => candidate.open.test(trimmedLine));
+    if (syntax) {
+      section = {
+        syntax,
+        lang: trimmedLine.match(syntax.open)?.[1] ?? "",
+        prefix: contentPrefix,
+        line: lineNumber,
+        lines: [],
+      };
+      continue;
+    }
+
+    if (!textBlock) {
+      // Text after a section that replaced its bullet goes into a new child.
+      textBlock = newBlock(currentBlock!.level + 1, lineNumber);
+      addChild(currentBlock, textBlock);
+    }
+    appendLine(textBlock, trimmedLine);
+  }
+
+  // An unterminated section keeps whatever it collected.
+  if (section) closeSection(section);
+}
+
+/**
+ * The page name a file name stands for. Logseq writes the `/` of namespace
+ * pages as `___` (the triple-lowbar file name format) or `%2F` (older
+ * graphs), and percent-encodes other characters file systems reject.
+ */
+function pageNameFromFileName(fileName: string): string {
+  const name = fileName.replace(/___/g, "/");
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name.replace(/%2F/gi, "/"); // A literal % that is not an escape
+  }
+}
+
+/**
+ * Creates the empty page of a file, named after it. Files under journals/
+ * named after a date are journal days. They are titled the way Logseq shows
+ * them, so [[Mar 15th, 2024]] finds them.
+ */
+export function createPage(file: LogseqFile, options: ParseOptions): LogseqPage {
   const page: LogseqPage = {
-    name: file.path.replace(/\.md$/, "").split("/").pop() || "Untitled",
+    name: pageNameFromFileName(file.path.replace(PAGE_FILE_REGEX, "").split("/").pop() || "") || "Untitled",
+    file: file.path,
     properties: {},
     blocks: [],
+    aliases: [],
+    tags: [],
   };
 
-  const lines = file.content.split('\n');
-    let currentBlock: LogseqBlock | null = null;
-    const blockStack: LogseqBlock[] = []; // To manage hierarchy based on indentation
-
-    let isFirstBlock = true;
+  if (isJournalPath(file.path)) {
+    const date = parseJournalDate(page.name, options.journalFileNameFormat);
+    if (date) {
+      page.journalDay = toJournalDay(date);
+      page.name = formatJournalDate(date, options.journalTitleFormat);
+    }
+  }
+  return page;
+}
 
-    for (const line of lines) {
-        const trimmedLine = line.trim();
-        if (!trimmedLine) continue;
+/**
+ * Reads a `#card` flashcard: the tag leaves the content and the `card-*`
+ * review properties leave the properties, both become `block.card`.
+ * Logseq writes the review dates as ISO timestamps.
+ */
+function readCard(block: LogseqBlock) {
+  const content = block.content.replace(CARD_TAG_REGEX, "$1");
+  if (content === block.content) return;
 
-        const isBlockLine = trimmedLine.startsWith('- ');
+  block.content = content.replace(/[ \t]+$/gm, "");
+  const number = (name: string) => {
+    const value = parseFloat(block.properties[name]);
+    return isNaN(value) ? undefined : value;
+  };
+  const date = (name: string) => {
+    const value = block.properties[name] ? new Date(String(block.properties[name]).trim()) : null;
+    return value && !isNaN(value.getTime()) ? value : undefined;
+  };
+  const { nextReview, lastReviewed, interval, repeats, easeFactor, lastScore } = CARD_FIELDS;
+  block.card = {
+    nextReview: date(nextReview.property),
+    lastReviewed: date(lastReviewed.property),
+    interval: number(interval.property),
+    repeats: number(repeats.property),
+    easeFactor: number(easeFactor.property),
+    lastScore: number(lastScore.property),
+  };
+  Object.keys(block.properties)
+    .filter((name) => name.startsWith(CARD_PROPERTY_PREFIX))
+    .forEach((name) => delete block.properties[name]);
+}
 
-        if (isFirstBlock && !isBlockLine) {
-            // It's a page property
-            const match = trimmedLine.match(PROPERTY_REGEX);
-            if (match) {
-                page.properties[match[1]] = match[2];
-            }
-            continue;
-        }
+/**
+ * The steps shared by every file format once the blocks of a page are read:
+ * user macros, query blocks, flashcards, the page property block, hidden
+ * properties, aliases and tags, and PDF highlights.
+ */
+export function finishPage(page: LogseqPage, options: ParseOptions): LogseqPage {
+  // User macros are expanded first, as they may expand into any of these.
+  // A block holding nothing but {{query ...}} is a query block. Advanced
+  // queries keep their EDN map as content, simple ones the query itself.
+  // One holding nothing but {{embed ...}} is an embed block; it keeps the
+  // macro as content, so its target is found like any other ref.
+  const trimContent = (blocks: LogseqBlock[]) => {
+    for (const block of blocks) {
+      if (block.kind === "text" || block.kind === "quote") {
+        block.content = expandUserMacros(block.content, options.macros);
+        readCard(block);
+      }
+      if (block.kind !== "code") block.content = block.content.trimEnd();
+      const simpleQuery = block.kind === "text" ? block.content.match(SIMPLE_QUERY_REGEX) : null;
+      if (simpleQuery) {
+        block.kind = "query";
+        block.content = simpleQuery[1].trim();
+      }
+      const embed = block.kind === "text" ? block.content.match(EMBED_REGEX) : null;
+      if (embed) {
+        block.kind = "embed";
+        block.embed = embed[1] ? { uuid: embed[1] } : { page: embed[2].trim() };
+      }
+      trimContent(block.children);
+    }
+  };
+  trimContent(page.blocks);
 
+  // A first block holding nothing but properties is Logseq's page property block.
+  const first = page.blocks[0];
+  if (
+    first && !first.content && first.children.length === 0 && !first.id &&
+    Object.keys(first.properties).length > 0 && Object.keys(page.properties).length === 0
+  ) {
+    page.properties = first.properties;
+    page.blocks.shift();
+  }
 
-        if (isBlockLine) {
-            isFirstBlock = false;
-            const indentation = line.match(/^\s*/)?.[0].length || 0;
-            const level = indentation / 2; // Assuming 2 spaces per indent level
+  if (options.hiddenProperties.length > 0) {
+    const dropHidden = (blocks: LogseqBlock[]) => {
+      for (const block of blocks) {
+        options.hiddenProperties.forEach((name) => delete block.properties[name]);
+        dropHidden(block.children);
+      }
+    };
+    options.hiddenProperties.forEach((name) => delete page.properties[name]);
+    dropHidden(page.blocks);
+  }
 
-            const newBlock: LogseqBlock = {
-                id: null,
-                content: trimmedLine.substring(2),
-                properties: {},
-                children: [],
-                level: level,
-            };
+  // title:: names the page over its file name; journals keep their date.
+  const title = String(page.properties.title ?? "").trim();
+  if (title) {
+    if (!page.journalDay) page.name = title;
+    delete page.properties.title;
+  }
 
-            // Adjust hierarchy based on indentation
-            while (blockStack.length > 0 && blockStack[blockStack.length - 1].level >= level) {
-                blockStack.pop();
-            }
+  // alias:: and tags:: become Orca aliases and tags, not text properties.
+  if (page.properties.alias) {
+    page.aliases = parsePageList(page.properties.alias).filter((a) => pageKey(a) !== pageKey(page.name));
+    delete page.properties.alias;
+  }
+  if (page.properties.tags) {
+    page.tags = parsePageList(page.properties.tags);
+    delete page.properties.tags;
+  }
 
-            const parent = blockStack.length > 0 ? blockStack[blockStack.length - 1] : null;
+  if (page.name.startsWith(HLS_PREFIX) && page.properties["file-path"]) {
+    readPdfHighlights(page);
+  }
 
-            if (parent) {
-                parent.children.push(newBlock);
-            } else {
-                page.blocks.push(newBlock);
-            }
+  return page;
+}
 
-            blockStack.push(newBlock);
-            currentBlock = newBlock;
+/**
+ * Logseq keeps the highlights of a PDF on an `hls__<pdf>` page. The PDF
+ * becomes a link block at the top of the page, so it is uploaded like any
+ * other asset, and each highlight block gets its page and color. An area
+ * highlight is a screenshot stored under assets/<pdf name>/ and becomes an
+ * image link to it.
+ */
+function readPdfHighlights(page: LogseqPage) {
+  const pdf = String(page.properties["file-path"]).trim();
+  const fileName = pdf.split("/").pop()!;
+  const label = String(page.properties.file ?? "").match(/^\[([^\]]*)\]\(/)?.[1] || fileName;
+  const imageDir = `${AREA_HIGHLIGHT_DIR}${fileName.replace(/\.pdf$/i, "")}/`;
+  delete page.properties.file;
+  delete page.properties["file-path"];
+  page.pdf = pdf;
 
-        } else if (currentBlock) {
-            // This line is a property or ID of the current block
-            const idMatch = trimmedLine.match(ID_REGEX);
-            if (idMatch) {
-                currentBlock.id = idMatch[1];
-                continue;
-            }
+  const visit = (blocks: LogseqBlock[]) => {
+    for (const block of blocks) {
+      const properties = block.properties;
+      if (String(properties["ls-type"]).trim() === "annotation") {
+        const hlPage = parseInt(properties["hl-page"]);
+        block.highlight = { pdf, page: isNaN(hlPage) ? 1 : hlPage };
+        if (properties["hl-color"]) block.highlight.color = String(properties["hl-color"]).trim();
 
-            const propMatch = trimmedLine.match(PROPERTY_REGEX);
-            if (propMatch) {
-                currentBlock.properties[propMatch[1]] = propMatch[2];
-            }
+        const stamp = properties["hl-stamp"];
+        if (String(properties["hl-type"]).trim() === "area" && stamp && block.id) {
+          const image = `![](${imageDir}${block.highlight.page}_${block.id}_${String(stamp).trim()}.png)`;
+          const text = block.content.replace(/^\[:span\]$/, "");
+          block.content = text ? `${text}\n${image}` : image;
         }
+        HIGHLIGHT_PROPERTIES.forEach((name) => delete properties[name]);
+      }
+      visit(block.children);
     }
+  };
+  visit(page.blocks);
 
-  return page;
+  const link = newBlock(0, 1);
+  link.content = `[${label}](${pdf})`;
+  page.blocks.unshift(link);
+}
+
+function isJournalPath(path: string): boolean {
+  return path.split("/").slice(0, -1).includes("journals");
 }
 
 /**
  * Parses all files in a Logseq graph and builds a structured data model.
  *
- * @param files An array of LogseqFile objects.
+ * @param files An array of LogseqFile objects, Markdown or Org. Files in hidden folders are skipped.
+ * @param options Graph-wide parsing options.
  * @returns A LogseqGraph object containing all pages and blocks.
  */
-export function parseLogseqGraph(files: LogseqFile[]): LogseqGraph {
+export function parseLogseqGraph(
+  files: LogseqFile[],
+  options: ParseOptions = DEFAULT_PARSE_OPTIONS
+): LogseqGraph {
+    const pages: LogseqPage[] = [];
+    for (const file of files) {
+        if (isHiddenPath(file.path, options)) continue;
+        pages.push(parsePageFile(file, options));
+    }
+    return buildGraph(pages);
+}
+
+/** Parses one page file, Markdown or Org by its extension. */
+export function parsePageFile(file: LogseqFile, options: ParseOptions): LogseqPage {
+    return file.path.toLowerCase().endsWith(".org")
+        ? parseOrgFile(file, options)
+        : parseLogseqFile(file, options);
+}
+
+/**
+ * Indexes parsed pages into a LogseqGraph: pages by name, blocks by UUID,
+ * aliases, and the source files of names used more than once.
+ */
+export function buildGraph(pages: LogseqPage[]): LogseqGraph {
     const graph: LogseqGraph = {
         pages: new Map(),
         blocks: new Map(),
+        names: new Map(),
+        aliases: new Map(),
+        duplicates: new Map(),
     };
 
-    for (const file of files) {
-        const page = parseLogseqFile(file);
-        graph.pages.set(page.name, page);
+    const filesByKey = new Map<string, string[]>();
+    for (const page of pages) {
+        const key = pageKey(page.name);
+        const sameName = filesByKey.get(key) ?? [];
+        sameName.push(page.file);
+        filesByKey.set(key, sameName);
+        if (sameName.length > 1) {
+            graph.duplicates.set(key, sameName);
+        }
+
+        graph.pages.set(page.file, page);
+        graph.names.set(key, page.name);
+        for (const alias of page.aliases) {
+            graph.aliases.set(pageKey(alias), page.name);
+        }
 
         const recursivelyFindBlocks = (blocks: LogseqBlock[]) => {
             for (const block of blocks) {
@@ -0,0 +1,94 @@
+/**
+ * @file progress.ts
+ * @description
+ * Progress of one import run, shared by the run and the progress dialog. The
+ * run reports what it is doing and the status of each page; the dialog
+ * subscribes to redraw, and its cancel button aborts the run, which stops
+ * between pages.
+ */
+
+import type { ImportLogEntry } from "./importer";
+import type { LogseqPage } from "./parser";
+
+export type PageImportStatus = "waiting" | "importing" | "imported" | "skipped" | "failed" | "cancelled";
+
+export interface PageProgress {
+  file: string;
+  name: string;
+  status: PageImportStatus;
+  error?: string;
+}
+
+export interface ImportProgressState {
+  stage: string; // What the run is doing, e.g. uploading assets
+  pages: PageProgress[];
+  finished: boolean;
+  cancelled: boolean;
+  log: ImportLogEntry[]; // Set when the run finishes
+}
+
+export interface ImportProgress {
+  readonly state: ImportProgressState;
+  readonly signal: AbortSignal;
+  setStage(stage: string): void;
+  setPages(pages: LogseqPage[]): void;
+  setPageStatus(page: LogseqPage, status: PageImportStatus, error?: string): void;
+  finish(log: ImportLogEntry[]): void;
+  cancel(): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export function createImportProgress(): ImportProgress {
+  const controller = new AbortController();
+  const listeners = new Set<() => void>();
+  const byFile = new Map<string, number>();
+  let state: ImportProgressState = { stage: "", pages: [], finished: false, cancelled: false, log: [] };
+
+  // Each change makes a new state object, so React sees it changed.
+  const update = (change: Partial<ImportProgressState>) => {
+    state = { ...state, ...change };
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    signal: controller.signal,
+    setStage: (stage) => update({ stage }),
+    setPages(pages) {
+      byFile.clear();
+      pages.forEach((page, i) => byFile.set(page.file, i));
+      update({ pages: pages.map((page) => ({ file: page.file, name: page.name, status: "waiting" })) });
+    },
+    setPageStatus(page, status, error) {
+      const index = byFile.get(page.file);
+      if (index == null) return;
+      const pages = [...state.pages];
+      pages[index] = { ...pages[index], status, error };
+      update({ pages });
+    },
+    finish(log) {
+      const pages = state.pages.map((page) => (page.status === "waiting" ? { ...page, status: "cancelled" as const } : page));
+      update({ pages, log, finished: true });
+    },
+    cancel() {
+      controller.abort();
+      update({ cancelled: true });
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/** The log of a run as text, one `level file:line message` entry per line. */
+export function importLogToText(log: ImportLogEntry[]): string {
+  return log
+    .map((entry) => {
+      const where = entry.line ? `${entry.file}:${entry.line}` : entry.file || entry.page;
+      return `[${entry.level}] ${where ? `${where} ` : ""}${entry.message}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,158 @@
+/**
+ * @file properties.ts
+ * @description
+ * Detects the type of Logseq `key:: value` property values so they can be
+ * written as typed Orca properties instead of plain text.
+ */
+
+import { parseJournalDate } from "./journal";
+import type { LogseqTaskMarker } from "./parser";
+
+/** Orca property types, see `PropType` in the Orca API docs. */
+export const PropType = {
+  JSON: 0,
+  Text: 1,
+  BlockRefs: 2,
+  Number: 3,
+  Boolean: 4,
+  DateTime: 5,
+  TextChoices: 6,
+} as const;
+
+// Logseq task markers are imported as Orca's task tag with a Status.
+export const TASK_TAG = "task";
+export const TASK_STATUS: Record<LogseqTaskMarker, string> = {
+  TODO: "TODO",
+  LATER: "TODO",
+  WAITING: "TODO",
+  WAIT: "TODO",
+  DOING: "Doing",
+  NOW: "Doing",
+  "IN-PROGRESS": "Doing",
+  DONE: "Done",
+  CANCELED: "Canceled",
+  CANCELLED: "Canceled",
+};
+// And back, for pages and queries exported to Logseq.
+export const TASK_MARKERS: Record<string, LogseqTaskMarker> = {
+  TODO: "TODO",
+  Doing: "DOING",
+  Done: "DONE",
+  Canceled: "CANCELED",
+};
+
+// Logseq `#card` flashcards are imported as the card tag, with the review
+// state as tag data under these names; the export writes them back as `card-*`.
+export const CARD_TAG = "card";
+export const CARD_FIELDS = {
+  nextReview: { name: "Next review", property: "card-next-schedule" },
+  lastReviewed: { name: "Last reviewed", property: "card-last-reviewed" },
+  interval: { name: "Interval", property: "card-last-interval" },
+  repeats: { name: "Repeats", property: "card-repeats" },
+  easeFactor: { name: "Ease factor", property: "card-ease-factor" },
+  lastScore: { name: "Last score", property: "card-last-score" },
+} as const;
+
+export type ParsedPropertyValue =
+  | { kind: "text"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "date"; value: Date }
+  | { kind: "list"; value: string[] }
+  | { kind: "refs"; value: string[] }; // Page names
+
+const REF_TOKEN_REGEX = /#\[\[([^\]]+)\]\]|\[\[([^\]]+)\]\]|#([^\s#,，\[\]]+)/g;
+const NUMBER_REGEX = /^-?\d+(\.\d+)?$/;
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parseDate(text: string, journalTitleFormat: string): Date | null {
+  const iso = text.match(ISO_DATE_REGEX);
+  if (iso) {
+    const date = new Date(parseInt(iso[1]), parseInt(iso[2]) - 1, parseInt(iso[3]));
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return parseJournalDate(text, journalTitleFormat);
+}
+
+/**
+ * Extracts the page names of a value made only of `[[page]]`, `#[[page]]`
+ * and `#tag` tokens. Returns null if anything else is in the value.
+ */
+function parseRefList(text: string): string[] | null {
+  const names: string[] = [];
+  const rest = text.replace(REF_TOKEN_REGEX, (_, tagged, linked, tag) => {
+    const name = (tagged ?? linked ?? tag).trim();
+    if (!names.includes(name)) names.push(name);
+    return "";
+  });
+  return names.length > 0 && /^[\s,，]*$/.test(rest) ? names : null;
+}
+
+/**
+ * Detects what a raw property value holds. Refs win over everything else,
+ * and a single ref to a journal day is a date. Commas split a value into a
+ * list of choices only for properties known to hold lists; elsewhere they
+ * are prose, e.g. `source:: Smith, J., 2020`.
+ */
+export function parsePropertyValue(raw: string, journalTitleFormat: string, isList = false): ParsedPropertyValue {
+  const text = String(raw).trim();
+
+  const refs = parseRefList(text);
+  if (refs) {
+    const date = refs.length === 1 ? parseDate(refs[0], journalTitleFormat) : null;
+    return date ? { kind: "date", value: date } : { kind: "refs", value: refs };
+  }
+
+  if (/^(true|false)$/i.test(text)) {
+    return { kind: "boolean", value: text.toLowerCase() === "true" };
+  }
+  if (NUMBER_REGEX.test(text)) {
+    return { kind: "number", value: parseFloat(text) };
+  }
+
+  const date = parseDate(text, journalTitleFormat);
+  if (date) return { kind: "date", value: date };
+
+  if (isList) {
+    const items = text.split(",").map((item) => item.trim()).filter(Boolean);
+    if (items.length > 1) return { kind: "list", value: items };
+  }
+
+  return { kind: "text", value: text };
+}
+
+/**
+ * Reads a raw property value as the type a property rule fixes. A value
+ * that cannot be read as that type is kept as text.
+ */
+export function parsePropertyValueAs(
+  raw: string,
+  type: "text" | "number" | "boolean" | "date" | "refs",
+  journalTitleFormat: string,
+): ParsedPropertyValue {
+  const text = String(raw).trim();
+  const unquoted = text.replace(/^\[\[(.*)\]\]$/, "$1").replace(/^#/, "");
+  switch (type) {
+    case "number": {
+      const value = parseFloat(text);
+      if (!isNaN(value)) return { kind: "number", value };
+      break;
+    }
+    case "boolean":
+      if (/^(true|yes|1)$/i.test(text)) return { kind: "boolean", value: true };
+      if (/^(false|no|0)$/i.test(text)) return { kind: "boolean", value: false };
+      break;
+    case "date": {
+      const date = parseDate(unquoted, journalTitleFormat);
+      if (date) return { kind: "date", value: date };
+      break;
+    }
+    case "refs": {
+      // Plain comma-separated names are pages too.
+      const names = parseRefList(text) ?? text.split(/[,，]/).map((name) => name.trim()).filter(Boolean);
+      if (names.length > 0) return { kind: "refs", value: names };
+      break;
+    }
+  }
+  return { kind: "text", value: text };
+}
@@ -0,0 +1,174 @@
+/**
+ * @file propertyRules.ts
+ * @description
+ * Rules for the `key:: value` properties of a graph, kept in the plugin
+ * settings. A rule matches a property name, or a `prefix-*` pattern, and
+ * drops the property, renames it or fixes the type of its value. Logseq's
+ * own `collapsed::`, `heading::` and `background-color::` are not imported
+ * as properties but as what they do in Orca, unless a rule says otherwise.
+ */
+
+import type { PluginSettingsSchema } from "./orca.d";
+import type { ParseOptions } from "./parser";
+import { parsePropertyValue, parsePropertyValueAs } from "./properties";
+import type { ParsedPropertyValue } from "./properties";
+
+export type PropertyValueType = "auto" | "text" | "number" | "boolean" | "date" | "refs";
+
+export interface PropertyRule {
+  property: string; // Name or `prefix-*` pattern, matched ignoring case
+  action: "import" | "drop";
+  renameTo?: string; // Imported under this name; empty keeps the name
+  type?: PropertyValueType; // "auto" detects the type from the value
+}
+
+/** What Logseq's built-in properties do to a block, applied natively in Orca. */
+export interface NativeBlockProperties {
+  collapsed?: boolean;
+  headingLevel?: number; // 1-6
+  color?: string; // Logseq's color name (yellow, red, ...) or a CSS color
+}
+
+export interface MappedProperties {
+  properties: Record<string, any>; // The properties to import, under their new names
+  types: Record<string, Exclude<PropertyValueType, "auto">>; // Value types the rules fix, by new name
+  native: NativeBlockProperties;
+}
+
+export const PROPERTY_RULES_SETTING = "propertyRules";
+
+// Orca's own block properties for what Logseq's collapsed:: and background-color:: do.
+export const COLLAPSED_PROPERTY = "_collapsed";
+export const COLOR_PROPERTY = "_color";
+
+// Review state left on blocks that are no longer flashcards and PDF highlight
+// details mean nothing outside Logseq.
+export const DEFAULT_PROPERTY_RULES: PropertyRule[] = [
+  { property: "card-*", action: "drop" },
+  { property: "ls-type", action: "drop" },
+  { property: "hl-*", action: "drop" },
+];
+
+const HEADING_LEVELS = 6;
+
+export const PROPERTY_RULES_SETTINGS_SCHEMA: PluginSettingsSchema = {
+  [PROPERTY_RULES_SETTING]: {
+    label: "属性映射规则",
+    description:
+      "导入 Logseq 属性时按顺序匹配的规则，第一条匹配的规则生效。属性名可写作 card-* 以匹配前缀。" +
+      "collapsed、heading 和 background-color 默认转换为虎鲸的折叠、标题和块颜色，为它们添加规则可改为按普通属性处理。",
+    type: "array",
+    defaultValue: DEFAULT_PROPERTY_RULES,
+    arrayItemSchema: {
+      property: { label: "属性名", type: "string" },
+      action: {
+        label: "处理方式",
+        type: "singleChoice",
+        defaultValue: "import",
+        choices: [
+          { label: "导入", value: "import" },
+          { label: "不导入", value: "drop" },
+        ],
+      },
+      renameTo: { label: "重命名为 (留空保持原名)", type: "string" },
+      type: {
+        label: "值类型",
+        type: "singleChoice",
+        defaultValue: "auto",
+        choices: [
+          { label: "自动识别", value: "auto" },
+          { label: "文本", value: "text" },
+          { label: "数字", value: "number" },
+          { label: "是/否", value: "boolean" },
+          { label: "日期", value: "date" },
+          { label: "页面引用", value: "refs" },
+        ],
+      },
+    },
+  },
+};
+
+/** The rules in the plugin settings, or the defaults when none are saved. */
+export function loadPropertyRules(pluginName: string): PropertyRule[] {
+  const saved = orca.state.plugins[pluginName]?.settings?.[PROPERTY_RULES_SETTING];
+  if (!Array.isArray(saved)) return DEFAULT_PROPERTY_RULES;
+  return saved.filter(
+    (rule): rule is PropertyRule => rule != null && typeof rule.property === "string" && rule.property.trim() !== ""
+  );
+}
+
+function matches(rule: PropertyRule, name: string): boolean {
+  const pattern = rule.property.trim().toLowerCase();
+  const key = name.toLowerCase();
+  return pattern.endsWith("*") ? key.startsWith(pattern.slice(0, -1)) : key === pattern;
+}
+
+/**
+ * Reads a built-in property as its native setting. Returns false for a
+ * value Orca has nothing for, which is then imported as a property.
+ */
+function readNative(name: string, raw: any, native: NativeBlockProperties): boolean {
+  const value = String(raw).trim();
+  switch (name.toLowerCase()) {
+    case "collapsed":
+      if (!/^(true|false)$/i.test(value)) return false;
+      native.collapsed = value.toLowerCase() === "true";
+      return true;
+    case "heading": {
+      // `heading:: true` is Logseq's automatic heading, the largest one.
+      const level = /^true$/i.test(value) ? 1 : parseInt(value);
+      if (isNaN(level)) return false;
+      native.headingLevel = Math.min(Math.max(level, 1), HEADING_LEVELS);
+      return true;
+    }
+    case "background-color":
+      if (!value) return false;
+      native.color = value.replace(/^"(.*)"$/, "$1");
+      return true;
+  }
+  return false;
+}
+
+/**
+ * Applies the rules to the properties of a block or page. The first rule
+ * matching a name decides; properties no rule matches are imported as they
+ * are, apart from the built-in ones Orca handles natively.
+ */
+export function mapProperties(properties: Record<string, any>, rules: PropertyRule[]): MappedProperties {
+  const mapped: MappedProperties = { properties: {}, types: {}, native: {} };
+  for (const [name, raw] of Object.entries(properties)) {
+    const rule = rules.find((candidate) => matches(candidate, name));
+    if (!rule) {
+      if (!readNative(name, raw, mapped.native)) mapped.properties[name] = raw;
+      continue;
+    }
+    if (rule.action === "drop") continue;
+    const newName = rule.renameTo?.trim() || name;
+    mapped.properties[newName] = raw;
+    if (rule.type && rule.type !== "auto") mapped.types[newName] = rule.type;
+  }
+  return mapped;
+}
+
+/**
+ * Parses each property the rules keep, under its new name: as the type a
+ * rule fixes, or by its value. Values of the properties config.edn lists in
+ * `:ignored-page-references-keywords` are kept as text, refs and all.
+ */
+export function parseMappedProperties(
+  { properties, types }: MappedProperties,
+  options: ParseOptions,
+): { name: string; raw: any; parsed: ParsedPropertyValue }[] {
+  return Object.entries(properties).map(([name, raw]) => {
+    const type = types[name];
+    if (type) return { name, raw, parsed: parsePropertyValueAs(String(raw), type, options.journalTitleFormat) };
+    const parsed = parsePropertyValue(String(raw), options.journalTitleFormat, options.listProperties.includes(name));
+    return {
+      name,
+      raw,
+      parsed: parsed.kind === "refs" && options.ignoredRefProperties.includes(name)
+        ? { kind: "text", value: String(raw).trim() }
+        : parsed,
+    };
+  });
+}
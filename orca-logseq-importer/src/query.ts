@@ -0,0 +1,417 @@
+/**
+ * @file query.ts
+ * @description
+ * Translates Logseq queries into Orca query descriptions. Logseq's simple
+ * query DSL (`{{query (and (task TODO) [[project]])}}`) maps onto Orca's
+ * condition groups; the `:query` of an advanced `#+BEGIN_QUERY` block is
+ * translated when it is written in the same DSL. Datalog has no Orca
+ * equivalent and is reported as untranslatable. The exporter uses
+ * `queryToLogseq` to write imported queries back as Logseq queries.
+ */
+
+import { formatJournalDate, parseJournalDate } from "./journal";
+import type { DbId, QueryDescription2, QueryGroup2, QueryItem2, QueryJournalDate, QueryRef2, QueryTag2, QueryTask, QueryText2 } from "./orca.d";
+import { PropType, TASK_MARKERS, TASK_STATUS, TASK_TAG } from "./properties";
+import type { LogseqTaskMarker } from "./parser";
+
+/** Looks up what a query needs from the import. */
+export interface QueryResolver {
+  pageId(name: string): DbId | undefined; // Orca block of a page, journal day or alias
+  journalTitleFormat: string;
+}
+
+export type QueryTranslation =
+  | { ok: true; description: QueryDescription2; title?: string; notes: string[] }
+  | { ok: false; reason: string };
+
+type Node =
+  | { t: "list"; items: Node[] }
+  | { t: "vector"; items: Node[] }
+  | { t: "map"; items: Node[] }
+  | { t: "str"; v: string }
+  | { t: "ref"; v: string }
+  | { t: "sym"; v: string };
+
+class UntranslatableQuery extends Error {}
+
+// Orca query kinds, see the Query* constants in orca.d.ts.
+const KIND_SELF_AND = 100;
+const KIND_SELF_OR = 101;
+const KIND_ANCESTOR_AND = 102;
+const KIND_JOURNAL = 3;
+const KIND_TAG = 4;
+const KIND_REF = 6;
+const KIND_TEXT = 8;
+const KIND_TASK = 11;
+const OP_INCLUDES = 3;
+const JOURNAL_RELATIVE = 1;
+const JOURNAL_FULL = 2;
+
+const OPEN_STATUSES = ["TODO", "Doing"];
+const CLOSED_STATUSES = ["Done", "Canceled"];
+
+/**
+ * A journal date as Orca stores it. orca.d.ts types only the relative form;
+ * a full date carries its date in `v`, as a Date or, once stored, a string.
+ */
+type JournalDate =
+  | { t: typeof JOURNAL_RELATIVE; v?: number; u?: QueryJournalDate["u"] }
+  | { t: typeof JOURNAL_FULL; v: Date | string };
+
+/** The Orca query conditions the translator writes, and reads back for the exporter. */
+type Condition =
+  | { kind: typeof KIND_SELF_AND | typeof KIND_SELF_OR; conditions: Condition[]; negate?: boolean }
+  | { kind: typeof KIND_ANCESTOR_AND; conditions: Condition[] }
+  | { kind: typeof KIND_JOURNAL; start: JournalDate; end: JournalDate }
+  | QueryText2
+  | QueryTag2
+  | QueryRef2
+  | QueryTask;
+
+const RELATIVE_DATE_REGEX = /^([+-]?\d+)([hdwmy])$/i;
+const NAMED_DAYS: Record<string, number> = { today: 0, now: 0, yesterday: -1, tomorrow: 1 };
+
+/**
+ * Reads Logseq's query syntax: EDN lists, vectors and maps plus `[[page]]`
+ * and `#tag` refs.
+ */
+function readNodes(source: string): Node[] {
+  let i = 0;
+  const fail = (message: string): never => {
+    throw new UntranslatableQuery(message);
+  };
+
+  const readNode = (): Node | null => {
+    while (i < source.length && /[\s,]/.test(source[i])) i++;
+    if (i >= source.length) return null;
+
+    const rest = source.substring(i);
+    const ref = rest.match(/^#?\[\[([^\]]+)\]\]/) ?? rest.match(/^#([^\s()[\]{}",]+)/);
+    if (ref) {
+      i += ref[0].length;
+      return { t: "ref", v: ref[1].trim() };
+    }
+
+    const ch = source[i];
+    if (ch === '"') {
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === "\\" && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) fail("字符串未闭合");
+      i++;
+      return { t: "str", v: value };
+    }
+
+    const closers: Record<string, [string, "list" | "vector" | "map"]> = {
+      "(": [")", "list"], "[": ["]", "vector"], "{": ["}", "map"],
+    };
+    if (closers[ch]) {
+      const [close, t] = closers[ch];
+      i++;
+      const items: Node[] = [];
+      for (;;) {
+        while (i < source.length && /[\s,]/.test(source[i])) i++;
+        if (i >= source.length) fail(`缺少 "${close}"`);
+        if (source[i] === close) {
+          i++;
+          return { t, items };
+        }
+        const item = readNode();
+        if (item) items.push(item);
+      }
+    }
+    if (")]}".includes(ch)) fail(`多余的 "${ch}"`);
+
+    const symbol = rest.match(/^[^\s()[\]{}",]+/)![0];
+    i += symbol.length;
+    return { t: "sym", v: symbol };
+  };
+
+  const nodes: Node[] = [];
+  for (let node = readNode(); node; node = readNode()) nodes.push(node);
+  return nodes;
+}
+
+const nodeText = (node: Node): string | null =>
+  node.t === "str" || node.t === "ref" || node.t === "sym" ? node.v : null;
+
+const fullDate = (date: Date): JournalDate => ({ t: JOURNAL_FULL, v: date });
+
+function journalDate(node: Node, resolver: QueryResolver): JournalDate {
+  const text = nodeText(node);
+  if (text == null) throw new UntranslatableQuery("between 的日期格式无法识别");
+
+  const named = NAMED_DAYS[text.toLowerCase()];
+  if (named != null) return { t: JOURNAL_RELATIVE, v: named, u: "d" };
+
+  const relative = text.match(RELATIVE_DATE_REGEX);
+  if (relative) {
+    const unit = relative[2].toLowerCase();
+    return { t: JOURNAL_RELATIVE, v: parseInt(relative[1]), u: unit === "m" ? "M" : (unit as "h" | "d" | "w" | "y") };
+  }
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const date = compact
+    ? new Date(parseInt(compact[1]), parseInt(compact[2]) - 1, parseInt(compact[3]))
+    : parseJournalDate(text, resolver.journalTitleFormat);
+  if (!date) throw new UntranslatableQuery(`无法识别的日期: ${text}`);
+  return fullDate(date);
+}
+
+function refCondition(name: string, resolver: QueryResolver): Condition {
+  const blockId = resolver.pageId(name);
+  if (blockId == null) throw new UntranslatableQuery(`找不到页面: ${name}`);
+  return { kind: KIND_REF, blockId };
+}
+
+function taskPropertyCondition(property: "Status" | "Priority", value: string): Condition {
+  return {
+    kind: KIND_TAG,
+    name: TASK_TAG,
+    properties: [{ name: property, type: PropType.TextChoices, op: OP_INCLUDES, value }],
+  };
+}
+
+const anyOf = (conditions: Condition[]): Condition =>
+  conditions.length === 1 ? conditions[0] : { kind: KIND_SELF_OR, conditions };
+
+/**
+ * Tasks are imported with the task tag and a Status choice, so a marker
+ * filter becomes the task condition when it selects all open or all closed
+ * tasks, and a Status condition otherwise.
+ */
+function taskCondition(args: Node[]): Condition {
+  const statuses = new Set<string>();
+  for (const arg of args) {
+    const marker = nodeText(arg)?.toUpperCase() as LogseqTaskMarker | undefined;
+    if (!marker || !TASK_STATUS[marker]) throw new UntranslatableQuery(`未知的任务状态: ${marker}`);
+    statuses.add(TASK_STATUS[marker]);
+  }
+  const selects = (group: string[]) => statuses.size === group.length && group.every((s) => statuses.has(s));
+
+  if (statuses.size === 0 || statuses.size === 4) return { kind: KIND_TASK };
+  if (selects(OPEN_STATUSES)) return { kind: KIND_TASK, completed: false };
+  if (selects(CLOSED_STATUSES)) return { kind: KIND_TASK, completed: true };
+  return anyOf([...statuses].map((status) => taskPropertyCondition("Status", status)));
+}
+
+function translateNode(node: Node, resolver: QueryResolver, notes: string[]): Condition {
+  switch (node.t) {
+    case "str":
+    case "sym":
+      return { kind: KIND_TEXT, text: node.v };
+    case "ref":
+      return refCondition(node.v, resolver);
+    case "vector":
+    case "map":
+      throw new UntranslatableQuery("Datalog 查询没有对应的虎鲸查询");
+  }
+
+  const [head, ...args] = node.items;
+  const op = head && head.t === "sym" ? head.v.toLowerCase() : "";
+  switch (op) {
+    case "and":
+    case "or":
+      return {
+        kind: op === "and" ? KIND_SELF_AND : KIND_SELF_OR,
+        conditions: args.map((arg) => translateNode(arg, resolver, notes)),
+      };
+    case "not":
+      return {
+        kind: KIND_SELF_AND,
+        negate: true,
+        conditions: args.map((arg) => translateNode(arg, resolver, notes)),
+      };
+    case "task":
+    case "todo":
+      return taskCondition(args);
+    case "priority":
+      return anyOf(args.map((arg) => {
+        const priority = nodeText(arg)?.toUpperCase();
+        if (!priority || !/^[ABC]$/.test(priority)) throw new UntranslatableQuery(`未知的优先级: ${priority}`);
+        return taskPropertyCondition("Priority", priority);
+      }));
+    case "between": {
+      if (args.length !== 2) throw new UntranslatableQuery("between 需要两个日期");
+      return { kind: KIND_JOURNAL, start: journalDate(args[0], resolver), end: journalDate(args[1], resolver) };
+    }
+    case "page":
+      return anyOf(args.map((arg) => {
+        const name = nodeText(arg);
+        if (name == null) throw new UntranslatableQuery("page 的参数无法识别");
+        const date = parseJournalDate(name, resolver.journalTitleFormat);
+        if (date) return { kind: KIND_JOURNAL, start: fullDate(date), end: fullDate(date) };
+        // Orca has no "inside page X" condition; blocks under a heading
+        // containing the page name is the closest match.
+        notes.push(`(page ${name}) 近似为“祖先块包含页面名”`);
+        return { kind: KIND_ANCESTOR_AND, conditions: [{ kind: KIND_TEXT, text: name, raw: true }] };
+      }));
+    case "page-tags":
+      return anyOf(args.map((arg) => {
+        const name = nodeText(arg);
+        if (name == null) throw new UntranslatableQuery("page-tags 的参数无法识别");
+        return { kind: KIND_TAG, name };
+      }));
+    case "property": {
+      // Ref-valued properties are imported as BlockRefs, which Orca counts
+      // as refs. Plain values have no query condition in Orca.
+      const value = args[1];
+      if (args.length === 2 && value.t === "ref") return refCondition(value.v, resolver);
+      throw new UntranslatableQuery("只有值为页面引用的 property 条件可以转换");
+    }
+    case "full-text-search": {
+      const text = args[0] && nodeText(args[0]);
+      if (text == null) throw new UntranslatableQuery("full-text-search 的参数无法识别");
+      return { kind: KIND_TEXT, text };
+    }
+    default:
+      throw new UntranslatableQuery(`不支持的查询条件: (${op || "?"} ...)`);
+  }
+}
+
+/**
+ * Finds the value of a keyword in an EDN map, e.g. `:query` or `:title`.
+ */
+function mapValue(map: Node, key: string): Node | undefined {
+  const items = map.t === "map" ? map.items : [];
+  for (let i = 0; i + 1 < items.length; i += 2) {
+    const k = items[i];
+    if (k.t === "sym" && k.v === key) return items[i + 1];
+  }
+  return undefined;
+}
+
+/**
+ * Translates a simple query (`{{query ...}}`) or an advanced query map
+ * (the body of `#+BEGIN_QUERY`) into an Orca query description.
+ */
+export function translateQuery(source: string, resolver: QueryResolver): QueryTranslation {
+  try {
+    const nodes = readNodes(source);
+    if (nodes.length === 0) return { ok: false, reason: "空查询" };
+
+    let title: string | undefined;
+    let query: Node[] = nodes;
+    if (nodes.length === 1 && nodes[0].t === "map") {
+      const titleNode = mapValue(nodes[0], ":title");
+      title = titleNode?.t === "str" ? titleNode.v : undefined;
+      const queryNode = mapValue(nodes[0], ":query");
+      if (!queryNode) return { ok: false, reason: "高级查询缺少 :query" };
+      query = queryNode.t === "str" ? readNodes(queryNode.v) : [queryNode];
+    }
+
+    const notes: string[] = [];
+    const conditions = query.map((node) => translateNode(node, resolver, notes));
+    const root: Condition = conditions.length === 1 ? conditions[0] : { kind: KIND_SELF_AND, conditions };
+    const q: Condition = root.kind === KIND_SELF_AND || root.kind === KIND_SELF_OR
+      ? root
+      : { kind: KIND_SELF_AND, conditions: [root] };
+    return { ok: true, description: { q: q as QueryGroup2 }, title, notes };
+  } catch (e) {
+    if (e instanceof UntranslatableQuery) return { ok: false, reason: e.message };
+    throw e;
+  }
+}
+
+/**
+ * Page names a query needs Orca block IDs for.
+ */
+export function queryPageRefs(source: string, journalTitleFormat: string): string[] {
+  const names: string[] = [];
+  translateQuery(source, {
+    journalTitleFormat,
+    pageId: (name) => {
+      if (!names.includes(name)) names.push(name);
+      return 0;
+    },
+  });
+  return names;
+}
+
+/** Block IDs a query description refers to, for `queryToLogseq`'s page names. */
+export function queryRefIds(item: QueryItem2): DbId[] {
+  return conditionRefIds(item as Condition);
+}
+
+function conditionRefIds(condition: Condition): DbId[] {
+  if (condition.kind === KIND_REF) return condition.blockId != null ? [condition.blockId] : [];
+  return "conditions" in condition ? (condition.conditions ?? []).flatMap(conditionRefIds) : [];
+}
+
+function journalDateToLogseq(date: JournalDate, journalTitleFormat: string): string {
+  if (date.t === JOURNAL_FULL) return `[[${formatJournalDate(new Date(date.v), journalTitleFormat)}]]`;
+  if (!date.v) return "today";
+  const unit = date.u === "M" ? "m" : date.u ?? "d";
+  return `${date.v > 0 ? "+" : ""}${date.v}${unit}`;
+}
+
+function conditionToLogseq(
+  condition: Condition,
+  pageName: (id: DbId) => string | undefined,
+  journalTitleFormat: string,
+): string {
+  const list = (op: string, items: Condition[]) =>
+    `(${op} ${items.map((child) => conditionToLogseq(child, pageName, journalTitleFormat)).join(" ")})`;
+
+  switch (condition.kind) {
+    case KIND_SELF_AND:
+    case KIND_SELF_OR: {
+      const conditions = condition.conditions ?? [];
+      if (condition.negate) return list("not", conditions);
+      if (conditions.length === 1) return conditionToLogseq(conditions[0], pageName, journalTitleFormat);
+      return list(condition.kind === KIND_SELF_AND ? "and" : "or", conditions);
+    }
+    case KIND_TEXT:
+      return JSON.stringify(String(condition.text ?? ""));
+    case KIND_REF: {
+      const name = condition.blockId != null ? pageName(condition.blockId) : undefined;
+      if (name == null) throw new UntranslatableQuery(`找不到块 ${condition.blockId} 的页面名`);
+      return `[[${name}]]`;
+    }
+    case KIND_TASK:
+      if (condition.completed === false) return "(task TODO DOING)";
+      if (condition.completed === true) return "(task DONE CANCELED)";
+      return "(task TODO DOING DONE CANCELED)";
+    case KIND_TAG: {
+      const property = condition.properties?.[0];
+      const value = String(property?.value);
+      if (condition.name === TASK_TAG && property?.name === "Status" && TASK_MARKERS[value]) {
+        return `(task ${TASK_MARKERS[value]})`;
+      }
+      if (condition.name === TASK_TAG && property?.name === "Priority") return `(priority ${value})`;
+      if (property) throw new UntranslatableQuery(`标签属性条件没有对应的 Logseq 查询: ${condition.name}`);
+      return `[[${condition.name}]]`;
+    }
+    case KIND_JOURNAL:
+      return `(between ${journalDateToLogseq(condition.start, journalTitleFormat)} ${journalDateToLogseq(condition.end, journalTitleFormat)})`;
+    case KIND_ANCESTOR_AND: {
+      const [only] = condition.conditions ?? [];
+      const text = condition.conditions?.length === 1 && only.kind === KIND_TEXT ? only.text : null;
+      if (text == null) throw new UntranslatableQuery("祖先块条件没有对应的 Logseq 查询");
+      return `(page ${JSON.stringify(String(text))})`;
+    }
+    default:
+      throw new UntranslatableQuery(`不支持的虎鲸查询条件: ${(condition as { kind: unknown }).kind}`);
+  }
+}
+
+/**
+ * The reverse of `translateQuery` for the conditions it produces: writes an
+ * Orca query description as Logseq's simple query DSL. `pageName` names the
+ * blocks of ref conditions. Returns null for anything else.
+ */
+export function queryToLogseq(
+  q: QueryItem2,
+  pageName: (id: DbId) => string | undefined,
+  journalTitleFormat: string,
+): string | null {
+  try {
+    return conditionToLogseq(q as Condition, pageName, journalTitleFormat);
+  } catch (e) {
+    if (e instanceof UntranslatableQuery) return null;
+    throw e;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * @file session.ts
+ * @description
+ * An import session is one run of the importer. It remembers where the run
+ * put its pages and every block it created, so a trial import can be rolled
+ * back as a whole.
+ */
+
+import { loadManifest, saveManifest } from "./manifest";
+import type { DbId } from "./orca.d";
+
+/**
+ * What to do with a page whose name or alias is already a page in Orca:
+ * leave the Orca page alone, append the imported blocks to it, import the
+ * page under a new name, or replace the Orca page's content.
+ */
+export type CollisionStrategy = "skip" | "merge" | "rename" | "overwrite";
+
+/** Where the pages of an import go, and how the run goes. */
+export interface ImportTarget {
+  parentId: DbId | null; // Pages become children of this block; null for top level
+  sessionTag: string | null; // Tag added to every created page
+  collisionStrategy: CollisionStrategy | "ask"; // "ask" reviews each collision before the import
+  batchSize: number; // Pages per batch; each batch is one undo step and one manifest save
+}
+
+export interface ImportSession {
+  id: string;
+  graph: string; // Name of the graph folder, the key of its manifest
+  startedAt: string;
+  parentId: DbId | null;
+  sessionTag: string | null;
+  tagCreated?: boolean; // The session tag did not exist before the run; missing in older sessions
+  createdIds: DbId[]; // Page headings created, and blocks inserted under existing pages
+  assets: string[]; // Paths of the assets uploaded for the session
+}
+
+const SESSION_KEY_PREFIX = "session:";
+
+export function createSession(graph: string, target: ImportTarget): ImportSession {
+  const startedAt = new Date();
+  return {
+    id: String(startedAt.getTime()),
+    graph,
+    startedAt: startedAt.toISOString(),
+    parentId: target.parentId,
+    sessionTag: target.sessionTag,
+    tagCreated: false,
+    createdIds: [],
+    assets: [],
+  };
+}
+
+export async function saveSession(pluginName: string, session: ImportSession) {
+  await orca.plugins.setData(pluginName, SESSION_KEY_PREFIX + session.id, JSON.stringify(session));
+}
+
+/**
+ * Returns the most recent session that has not been rolled back.
+ */
+export async function loadLatestSession(pluginName: string): Promise<ImportSession | null> {
+  const keys = (await orca.plugins.getDataKeys(pluginName))
+    .filter((key) => key.startsWith(SESSION_KEY_PREFIX))
+    .sort((a, b) => Number(b.substring(SESSION_KEY_PREFIX.length)) - Number(a.substring(SESSION_KEY_PREFIX.length)));
+  if (keys.length === 0) return null;
+
+  const stored = await orca.plugins.getData(pluginName, keys[0]);
+  return typeof stored === "string" ? (JSON.parse(stored) as ImportSession) : null;
+}
+
+/**
+ * The blocks every stored session created, rolled back ones excepted.
+ */
+export async function loadCreatedIds(pluginName: string): Promise<Set<DbId>> {
+  const ids = new Set<DbId>();
+  const keys = (await orca.plugins.getDataKeys(pluginName)).filter((key) => key.startsWith(SESSION_KEY_PREFIX));
+  for (const key of keys) {
+    const stored = await orca.plugins.getData(pluginName, key);
+    if (typeof stored !== "string") continue;
+    (JSON.parse(stored) as ImportSession).createdIds.forEach((id) => ids.add(id));
+  }
+  return ids;
+}
+
+/**
+ * Deletes every block a session created: its page headings with their
+ * content and the blocks it added under journal days and existing pages.
+ * Other blocks with the session tag are left alone, since the tag may be
+ * shared with other runs of the day or with the user's own notes. The tag
+ * itself goes only when the session created it and nothing else carries it.
+ * Assets are referenced from the deleted blocks, so no imported block points
+ * at them any more; the uploaded files stay in the repo's assets folder.
+ *
+ * Manifest entries of the deleted pages are dropped so the next import
+ * brings them in again. Returns the number of deleted blocks.
+ */
+export async function rollbackSession(pluginName: string, session: ImportSession): Promise<number> {
+  const ids = [...new Set<DbId>(session.createdIds)];
+  const existing: ({ id: DbId } | null)[] = ids.length > 0
+    ? await orca.invokeBackend("get-blocks", ids)
+    : [];
+  const toDelete = (existing ?? []).filter((block): block is { id: DbId } => block != null).map((block) => block.id);
+
+  let tagBlockId: DbId | null = null;
+  if (session.sessionTag && session.tagCreated) {
+    const deleting = new Set(toDelete);
+    const tagged: { id: DbId }[] = (await orca.invokeBackend("get-blocks-with-tags", [session.sessionTag])) ?? [];
+    if (tagged.every((block) => deleting.has(block.id))) {
+      tagBlockId = (await orca.invokeBackend("get-blockid-by-alias", session.sessionTag))?.id ?? null;
+    }
+  }
+
+  await orca.commands.invokeGroup(
+    async () => {
+      if (toDelete.length > 0) {
+        await orca.commands.invokeEditorCommand("core.editor.deleteBlocks", null, toDelete);
+      }
+      if (tagBlockId != null) {
+        await orca.commands.invokeEditorCommand("core.editor.deleteBlocks", null, [tagBlockId]);
+      }
+    },
+    { undoable: true, topGroup: true }
+  );
+
+  const deleted = new Set(toDelete);
+  const manifest = await loadManifest(pluginName, session.graph);
+  for (const [path, entry] of Object.entries(manifest.entries)) {
+    if (
+      (entry.pageBlockId != null && deleted.has(entry.pageBlockId)) ||
+      entry.rootIds.some((id) => deleted.has(id))
+    ) {
+      delete manifest.entries[path];
+    }
+  }
+  await saveManifest(pluginName, manifest);
+  await orca.plugins.removeData(pluginName, SESSION_KEY_PREFIX + session.id);
+
+  return toDelete.length;
+}
@@ -0,0 +1,42 @@
+/**
+ * @file timing.ts
+ * @description
+ * Time spent in each step of an import run, summed over its batches, so the
+ * log of a slow run shows where the time went: parsing, asset uploads,
+ * block inserts, tags, the second pass.
+ */
+
+export interface StepTime {
+  step: string;
+  ms: number;
+  count: number; // Times the step ran
+}
+
+export interface StepTimes {
+  measure<T>(step: string, fn: () => Promise<T>): Promise<T>;
+  list(): StepTime[]; // In the order the steps first ran
+}
+
+export function createStepTimes(): StepTimes {
+  const times = new Map<string, StepTime>();
+  return {
+    async measure(step, fn) {
+      const start = performance.now();
+      try {
+        return await fn();
+      } finally {
+        const time = times.get(step) ?? { step, ms: 0, count: 0 };
+        time.ms += performance.now() - start;
+        time.count++;
+        times.set(step, time);
+      }
+    },
+    list: () => [...times.values()],
+  };
+}
+
+/** A step time for the import log, e.g. `插入块: 12.4 秒 (35 次)`. */
+export function formatStepTime({ step, ms, count }: StepTime): string {
+  const duration = ms >= 1000 ? `${(ms / 1000).toFixed(1)} 秒` : `${Math.round(ms)} 毫秒`;
+  return count > 1 ? `${step}: ${duration} (${count} 次)` : `${step}: ${duration}`;
+}
@@ -1,20 +1,27 @@
-import type { LogseqFile } from "./parser";
+import type { ExportSelection } from "./exporter";
+import type { ImportLogEntry, PageCollision } from "./importer";
+import { formatJournalDate } from "./journal";
+import { isHiddenPath, isPageFile } from "./parser";
+import type { GraphSource } from "./parser";
+import { importLogToText } from "./progress";
+import type { ImportProgress, ImportProgressState, PageImportStatus } from "./progress";
+import type { CollisionStrategy, ImportTarget } from "./session";
 
 const { React } = window;
-const { useState } = React;
+const { useEffect, useState } = React;
 
 interface ImporterUIProps {
-  onConfirm: (
-    directoryHandle: FileSystemDirectoryHandle,
-    files: LogseqFile[]
-  ) => void;
+  onConfirm: (source: GraphSource, target: ImportTarget) => void;
   onClose: () => void;
+  actionLabel?: string; // Label of the folder button, defaults to importing
+  showTarget?: boolean; // Whether to ask where the imported pages go
 }
 
-async function getFilesInDirectory(
+/** The paths of the page files in a folder. Their content is read by the parse worker. */
+async function listPageFiles(
   directoryHandle: FileSystemDirectoryHandle
-): Promise<LogseqFile[]> {
-  const files: LogseqFile[] = [];
+): Promise<string[]> {
+  const files: string[] = [];
 
   async function recurse(
     currentHandle: FileSystemDirectoryHandle,
@@ -23,10 +30,8 @@ async function getFilesInDirectory(
     // @ts-ignore
     for await (const entry of currentHandle.values()) {
       const newPath = currentPath ? `${currentPath}/${entry.name}` : entry.name;
-      if (entry.kind === "file" && entry.name.endsWith(".md")) {
-        const file = await entry.getFile();
-        const content = await file.text();
-        files.push({ path: newPath, content });
+      if (entry.kind === "file" && isPageFile(entry.name)) {
+        files.push(newPath);
       } else if (entry.kind === "directory") {
         await recurse(entry, newPath);
       }
@@ -37,29 +42,95 @@ async function getFilesInDirectory(
   return files;
 }
 
-export function ImporterUI({ onConfirm, onClose }: ImporterUIProps) {
+const COLLISION_STRATEGY_LABELS: Record<CollisionStrategy, string> = {
+  skip: "跳过 (保留虎鲸中的页面)",
+  merge: "合并 (追加到已有页面下)",
+  rename: "重命名 (添加后缀后导入)",
+  overwrite: "覆盖 (替换已有页面的内容，不可撤销)",
+};
+
+const strategyOptions = () =>
+  (Object.keys(COLLISION_STRATEGY_LABELS) as CollisionStrategy[]).map((strategy) =>
+    React.createElement("option", { key: strategy, value: strategy }, COLLISION_STRATEGY_LABELS[strategy])
+  );
+
+const DEFAULT_BATCH_SIZE = 50;
+const ROOT_FOLDER = ""; // Files directly in the graph folder
+
+/** The top-level folder of a file in the graph, e.g. pages or journals. */
+const topFolder = (path: string) => (path.includes("/") ? path.substring(0, path.indexOf("/")) : ROOT_FOLDER);
+
+/** Top-level folders with their page file counts, in the order Logseq shows them. */
+function listFolders(files: string[]): { name: string; count: number; hidden: boolean }[] {
+  const folders = new Map<string, { count: number; hidden: boolean }>();
+  for (const path of files) {
+    const name = topFolder(path);
+    const folder = folders.get(name) ?? { count: 0, hidden: true };
+    folder.count++;
+    folder.hidden &&= isHiddenPath(path);
+    folders.set(name, folder);
+  }
+  const rank = (name: string) => ["pages", "journals"].indexOf(name) + 1 || 3;
+  return [...folders.entries()]
+    .map(([name, folder]) => ({ name, ...folder }))
+    .sort((a, b) => rank(a.name) - rank(b.name) || a.name.localeCompare(b.name));
+}
+
+const inputStyle = {
+  width: "100%",
+  boxSizing: "border-box" as const,
+  padding: "4px 8px",
+  marginTop: "4px",
+};
+
+export function ImporterUI({ onConfirm, onClose, actionLabel = "选择文件夹", showTarget = false }: ImporterUIProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [parentIdText, setParentIdText] = useState("");
+  const [sessionTag, setSessionTag] = useState(`Logseq Import ${formatJournalDate(new Date(), "yyyy-MM-dd")}`);
+  const [collisionStrategy, setCollisionStrategy] = useState<CollisionStrategy | "ask">("skip");
+  const [batchSizeText, setBatchSizeText] = useState(String(DEFAULT_BATCH_SIZE));
+  // A picked graph folder waits here while its folders are chosen.
+  const [picked, setPicked] = useState<{ name: string; folder: FileSystemDirectoryHandle; files: string[] } | null>(null);
+  const [folders, setFolders] = useState<Set<string>>(new Set());
+
+  const readTarget = (): ImportTarget | null => {
+    const parentId = parentIdText.trim() ? Number(parentIdText.trim()) : null;
+    if (parentId != null && !Number.isInteger(parentId)) {
+      orca.notify("warn", "目标父块 ID 必须是数字。");
+      return null;
+    }
+    const batchSize = Number(batchSizeText.trim());
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      orca.notify("warn", "每批页面数必须是正整数。");
+      return null;
+    }
+    return { parentId, sessionTag: sessionTag.trim() || null, collisionStrategy, batchSize };
+  };
 
   const handleSelectFolder = async () => {
     try {
+      const target = readTarget();
+      if (!target) return;
+
       // @ts-ignore
       const directoryHandle = await window.showDirectoryPicker();
       if (!directoryHandle) return;
 
       setIsLoading(true);
-      orca.notify("info", "开始读取文件夹内容...");
-
-      const logseqFiles = await getFilesInDirectory(directoryHandle);
+      const logseqFiles = await listPageFiles(directoryHandle);
 
       if (logseqFiles.length === 0) {
-        orca.notify("warn", "在所选文件夹中没有找到 Markdown (.md) 文件。");
-        setIsLoading(false);
+        orca.notify("warn", "在所选文件夹中没有找到 Markdown (.md) 或 Org (.org) 文件。");
         return;
       }
-      
-      onConfirm(directoryHandle, logseqFiles);
-      onClose(); // Close UI after selection is confirmed
 
+      if (!showTarget) {
+        onConfirm({ name: directoryHandle.name, folder: directoryHandle, files: logseqFiles, exportFile: null }, target);
+        onClose();
+        return;
+      }
+      setFolders(new Set(listFolders(logseqFiles).filter((folder) => !folder.hidden).map((folder) => folder.name)));
+      setPicked({ name: directoryHandle.name, folder: directoryHandle, files: logseqFiles });
     } catch (err: any) {
       // Handle user cancellation gracefully
       if (err.name === 'AbortError') {
@@ -69,10 +140,180 @@ export function ImporterUI({ onConfirm, onClose }: ImporterUIProps) {
         orca.notify("error", "选择文件夹失败。");
       }
     } finally {
-       if (isLoading) setIsLoading(false);
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = () => {
+    const target = readTarget();
+    if (!target || !picked) return;
+    const files = picked.files.filter((path: string) => folders.has(topFolder(path)));
+    if (files.length === 0) {
+      orca.notify("warn", "请至少选择一个包含页面的文件夹。");
+      return;
+    }
+    onConfirm({ name: picked.name, folder: picked.folder, files, exportFile: null }, target);
+    onClose();
+  };
+
+  // A JSON/EDN graph export. Its graph folder is optional and only needed for
+  // assets and config.edn, so cancelling that picker imports without them.
+  const handleSelectExport = async () => {
+    try {
+      const target = readTarget();
+      if (!target) return;
+
+      // @ts-ignore
+      const [fileHandle] = await window.showOpenFilePicker({
+        types: [{ description: "Logseq 导出文件", accept: { "application/json": [".json"], "application/edn": [".edn"] } }],
+      });
+      if (!fileHandle) return;
+
+      setIsLoading(true);
+      const exportFile: File = await fileHandle.getFile();
+
+      orca.notify("info", "可选：请选择该图谱的文件夹以导入附件和 config.edn 设置，取消则跳过。");
+      let folder: FileSystemDirectoryHandle | null = null;
+      try {
+        // @ts-ignore
+        folder = await window.showDirectoryPicker();
+      } catch (err: any) {
+        if (err.name !== 'AbortError') throw err;
+      }
+
+      const name = folder?.name ?? exportFile.name.replace(/\.(json|edn)$/i, "");
+      onConfirm({ name, folder, files: [], exportFile }, target);
+      onClose();
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        console.log("File picker was cancelled by the user.");
+      } else {
+        console.error("Error reading the export file:", err);
+        orca.notify("error", "读取导出文件失败。");
+      }
+    } finally {
+      setIsLoading(false);
     }
   };
-  
+
+  const toggleFolder = (name: string, checked: boolean) => {
+    const next = new Set(folders);
+    if (checked) next.add(name);
+    else next.delete(name);
+    setFolders(next);
+  };
+
+  const folderStep = picked && React.createElement(
+    "div",
+    { style: { textAlign: "left" as const, marginBottom: "20px" } },
+    React.createElement("p", { style: { margin: "0 0 12px" } }, `已读取 "${picked.name}"，请选择要导入的文件夹：`),
+    ...listFolders(picked.files).map((folder) =>
+      React.createElement(
+        "label",
+        { key: folder.name, style: { display: "flex", alignItems: "center", gap: "8px", marginBottom: "8px" } },
+        React.createElement(
+          // @ts-ignore
+          orca.components.Checkbox,
+          { checked: folders.has(folder.name), onChange: ({ checked }: { checked: boolean }) => toggleFolder(folder.name, checked) }
+        ),
+        `${folder.name === ROOT_FOLDER ? "(根目录)" : `${folder.name}/`} — ${folder.count} 个文件${folder.hidden ? " (Logseq 内部文件)" : ""}`
+      )
+    )
+  );
+
+  const optionFields = showTarget && React.createElement(
+    "div",
+    { style: { textAlign: "left" as const, marginBottom: "20px" } },
+    React.createElement(
+      "label",
+      { style: { display: "block", marginBottom: "12px" } },
+      "目标父块 ID (留空则导入到顶层)",
+      React.createElement("input", {
+        style: inputStyle,
+        value: parentIdText,
+        placeholder: "例如 1234",
+        onChange: (e: any) => setParentIdText(e.target.value),
+      })
+    ),
+    React.createElement(
+      "label",
+      { style: { display: "block", marginBottom: "12px" } },
+      "会话标签 (添加到每个新建页面，用于撤销导入)",
+      React.createElement("input", {
+        style: inputStyle,
+        value: sessionTag,
+        onChange: (e: any) => setSessionTag(e.target.value),
+      })
+    ),
+    React.createElement(
+      "label",
+      { style: { display: "block", marginBottom: "12px" } },
+      "虎鲸中已有同名页面时",
+      React.createElement(
+        "select",
+        {
+          style: inputStyle,
+          value: collisionStrategy,
+          onChange: (e: any) => setCollisionStrategy(e.target.value),
+        },
+        ...strategyOptions(),
+        React.createElement("option", { key: "ask", value: "ask" }, "导入前逐个确认")
+      )
+    ),
+    React.createElement(
+      "label",
+      { style: { display: "block" } },
+      "每批页面数 (每批可单独撤销，大的笔记库可调小)",
+      React.createElement("input", {
+        style: inputStyle,
+        type: "number",
+        min: 1,
+        value: batchSizeText,
+        onChange: (e: any) => setBatchSizeText(e.target.value),
+      })
+    )
+  );
+
+  const buttons = picked
+    ? [
+        React.createElement(
+          // @ts-ignore
+          orca.components.Button,
+          { key: "start", variant: "solid", onClick: handleStart },
+          "开始导入"
+        ),
+        React.createElement(
+          // @ts-ignore
+          orca.components.Button,
+          { key: "back", variant: "outline", onClick: () => setPicked(null), style: { marginTop: "12px" } },
+          "重新选择文件夹"
+        ),
+      ]
+    : [
+        React.createElement(
+          // @ts-ignore
+          orca.components.Button,
+          {
+            key: "folder",
+            variant: "solid",
+            onClick: isLoading ? undefined : handleSelectFolder,
+            style: { opacity: isLoading ? 0.5 : 1 }
+          },
+          isLoading ? "正在读取..." : actionLabel
+        ),
+        React.createElement(
+          // @ts-ignore
+          orca.components.Button,
+          {
+            key: "export",
+            variant: "outline",
+            onClick: isLoading ? undefined : handleSelectExport,
+            style: { opacity: isLoading ? 0.5 : 1, marginTop: "12px" }
+          },
+          "或选择 Logseq 导出文件 (JSON/EDN)"
+        ),
+      ];
+
   return React.createElement(
     // @ts-ignore
     orca.components.ModalOverlay,
@@ -81,17 +322,321 @@ export function ImporterUI({ onConfirm, onClose }: ImporterUIProps) {
       "div",
       { style: { padding: "20px", background: "var(--orca-color-bg-base)", borderRadius: "8px", width: "400px", textAlign: "center" as const } },
       React.createElement("h2", null, "Logseq 笔记导入"),
-      React.createElement("p", { style: { margin: "20px 0" } }, "请选择您 Logseq 笔记库的根文件夹。此操作将读取该文件夹下的所有文件。"),
+      !picked && React.createElement("p", { style: { margin: "20px 0" } }, "请选择您 Logseq 笔记库的根文件夹。此操作将读取该文件夹下的所有文件。"),
+      picked ? folderStep : optionFields,
+      React.createElement("div", { style: { display: "flex", flexDirection: "column" as const } }, ...buttons)
+    )
+  );
+}
+
+interface ExporterUIProps {
+  onConfirm: (selection: ExportSelection, folder: FileSystemDirectoryHandle) => void;
+  onClose: () => void;
+}
+
+const splitNames = (text: string) => text.split(/[,，\n]/).map((name) => name.trim()).filter(Boolean);
+
+export function ExporterUI({ onConfirm, onClose }: ExporterUIProps) {
+  const [pageNamesText, setPageNamesText] = useState("");
+  const [tagsText, setTagsText] = useState("");
+
+  const handleSelectFolder = async () => {
+    const selection: ExportSelection = { pageNames: splitNames(pageNamesText), tags: splitNames(tagsText) };
+    if (selection.pageNames.length === 0 && selection.tags.length === 0) {
+      orca.notify("warn", "请至少填写一个页面或标签。");
+      return;
+    }
+    try {
+      // @ts-ignore
+      const directoryHandle = await window.showDirectoryPicker({ mode: "readwrite" });
+      if (!directoryHandle) return;
+      onConfirm(selection, directoryHandle);
+      onClose();
+    } catch (err: any) {
+      if (err.name === 'AbortError') {
+        console.log("Folder picker was cancelled by the user.");
+      } else {
+        console.error("Error selecting directory:", err);
+        orca.notify("error", "选择文件夹失败。");
+      }
+    }
+  };
+
+  return React.createElement(
+    // @ts-ignore
+    orca.components.ModalOverlay,
+    { visible: true, canClose: true, onClose: onClose },
+    React.createElement(
+      "div",
+      { style: { padding: "20px", background: "var(--orca-color-bg-base)", borderRadius: "8px", width: "400px", textAlign: "center" as const } },
+      React.createElement("h2", null, "导出到 Logseq"),
+      React.createElement("p", { style: { margin: "20px 0" } }, "填写要导出的页面或标签，然后选择 Logseq 图谱文件夹。页面会写入 pages/ 和 journals/，附件复制到 assets/。"),
+      React.createElement(
+        "div",
+        { style: { textAlign: "left" as const, marginBottom: "20px" } },
+        React.createElement(
+          "label",
+          { style: { display: "block", marginBottom: "12px" } },
+          "页面 (页面名或日期，用逗号分隔)",
+          React.createElement("input", {
+            style: inputStyle,
+            value: pageNamesText,
+            placeholder: "例如 项目A, 2024-03-15",
+            onChange: (e: any) => setPageNamesText(e.target.value),
+          })
+        ),
+        React.createElement(
+          "label",
+          { style: { display: "block" } },
+          "标签 (导出带有这些标签的全部块，用逗号分隔)",
+          React.createElement("input", {
+            style: inputStyle,
+            value: tagsText,
+            onChange: (e: any) => setTagsText(e.target.value),
+          })
+        )
+      ),
       React.createElement(
         // @ts-ignore
         orca.components.Button,
-        {
-          variant: "solid",
-          onClick: isLoading ? undefined : handleSelectFolder,
-          style: { opacity: isLoading ? 0.5 : 1 }
-        },
-        isLoading ? "正在读取..." : "选择文件夹开始导入"
+        { variant: "solid", onClick: handleSelectFolder },
+        "选择文件夹开始导出"
+      )
+    )
+  );
+}
+
+interface CollisionReviewUIProps {
+  collisions: PageCollision[];
+  onConfirm: (decisions: Map<string, CollisionStrategy>) => void;
+  onClose: () => void;
+}
+
+/**
+ * The review list of pages whose name is already taken in Orca, with a
+ * strategy for each and one to set them all at once.
+ */
+export function CollisionReviewUI({ collisions, onConfirm, onClose }: CollisionReviewUIProps) {
+  const [decisions, setDecisions] = useState<Record<string, CollisionStrategy>>(() =>
+    Object.fromEntries(collisions.map(({ page }) => [page.file, "skip" as CollisionStrategy]))
+  );
+
+  const setAll = (strategy: CollisionStrategy) =>
+    setDecisions(Object.fromEntries(collisions.map(({ page }) => [page.file, strategy])));
+
+  const handleConfirm = () => {
+    onConfirm(new Map(Object.entries(decisions)));
+    onClose();
+  };
+
+  return React.createElement(
+    // @ts-ignore
+    orca.components.ModalOverlay,
+    { visible: true, canClose: true, onClose: onClose },
+    React.createElement(
+      "div",
+      { style: { padding: "20px", background: "var(--orca-color-bg-base)", borderRadius: "8px", width: "560px", textAlign: "left" as const } },
+      React.createElement("h2", null, "同名页面"),
+      React.createElement("p", { style: { margin: "12px 0" } }, `${collisions.length} 个页面的名称或别名在虎鲸中已存在，请为每个页面选择处理方式。关闭此窗口将取消导入。`),
+      React.createElement(
+        "label",
+        { style: { display: "block", marginBottom: "12px" } },
+        "全部设为",
+        React.createElement(
+          "select",
+          { style: inputStyle, value: "", onChange: (e: any) => e.target.value && setAll(e.target.value) },
+          React.createElement("option", { value: "" }, "—"),
+          ...strategyOptions()
+        )
+      ),
+      React.createElement(
+        "div",
+        { style: { maxHeight: "320px", overflowY: "auto" as const, marginBottom: "20px" } },
+        ...collisions.map(({ page, matchedName }) =>
+          React.createElement(
+            "label",
+            { key: page.file, style: { display: "block", marginBottom: "8px" } },
+            matchedName === page.name ? page.name : `${page.name} (别名 "${matchedName}")`,
+            React.createElement(
+              "select",
+              {
+                style: inputStyle,
+                value: decisions[page.file],
+                onChange: (e: any) => setDecisions({ ...decisions, [page.file]: e.target.value }),
+              },
+              ...strategyOptions()
+            )
+          )
+        )
+      ),
+      React.createElement(
+        // @ts-ignore
+        orca.components.Button,
+        { variant: "solid", onClick: handleConfirm },
+        "确认并开始导入"
       )
     )
   );
-}
\ No newline at end of file
+}
+
+interface ImportProgressUIProps {
+  progress: ImportProgress;
+  onSaveLog: (log: ImportLogEntry[]) => void;
+  onClose: () => void;
+}
+
+const PAGE_STATUS_LABELS: Record<PageImportStatus, string> = {
+  waiting: "等待中",
+  importing: "正在导入",
+  imported: "已导入",
+  skipped: "已跳过",
+  failed: "失败",
+  cancelled: "已取消",
+};
+
+const LOG_LEVEL_COLORS: Record<ImportLogEntry["level"], string> = {
+  info: "var(--orca-color-text-2)",
+  warn: "var(--orca-color-warning-5, #d48806)",
+  error: "var(--orca-color-danger-5, #cf1322)",
+};
+
+// Started pages are listed newest first; a large graph shows only the latest.
+const PAGE_LIST_LIMIT = 200;
+
+const listStyle = {
+  maxHeight: "220px",
+  overflowY: "auto" as const,
+  border: "1px solid var(--orca-color-border)",
+  borderRadius: "4px",
+  padding: "4px 8px",
+  marginBottom: "12px",
+  fontSize: "13px",
+};
+
+/**
+ * The dialog of a running import: a progress bar, the status of each page
+ * and a cancel button, which stops the run before its next page. When the
+ * run ends it lists the warnings and errors of every page, to copy or save.
+ */
+export function ImportProgressUI({ progress, onSaveLog, onClose }: ImportProgressUIProps) {
+  const [state, setState] = useState<ImportProgressState>(progress.state);
+  const { pages, log }: ImportProgressState = state;
+  useEffect(() => progress.subscribe(() => setState(progress.state)), [progress]);
+
+  const counts = new Map<PageImportStatus, number>();
+  pages.forEach((page) => counts.set(page.status, (counts.get(page.status) ?? 0) + 1));
+  const done = pages.length - (counts.get("waiting") ?? 0) - (counts.get("importing") ?? 0);
+  const percent = pages.length > 0 ? Math.round((done / pages.length) * 100) : state.finished ? 100 : 0;
+  const started = pages.filter((page) => page.status !== "waiting").reverse();
+
+  const summary = (["imported", "skipped", "failed", "cancelled"] as PageImportStatus[])
+    .filter((status) => counts.get(status))
+    .map((status) => `${PAGE_STATUS_LABELS[status]} ${counts.get(status)}`)
+    .join("，");
+
+  const copyLog = async () => {
+    try {
+      await navigator.clipboard.writeText(importLogToText(log));
+      orca.notify("success", "导入日志已复制。");
+    } catch (e) {
+      console.error("Could not copy the import log:", e);
+      orca.notify("error", "复制导入日志失败。");
+    }
+  };
+
+  const pageList = React.createElement(
+    "div",
+    { style: listStyle },
+    ...started.slice(0, PAGE_LIST_LIMIT).map((page) =>
+      React.createElement(
+        "div",
+        { key: page.file, style: { display: "flex", justifyContent: "space-between", gap: "12px", padding: "2px 0" } },
+        React.createElement("span", { style: { overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" as const } }, page.name),
+        React.createElement(
+          "span",
+          { title: page.error, style: { flexShrink: 0, color: page.status === "failed" ? LOG_LEVEL_COLORS.error : undefined } },
+          PAGE_STATUS_LABELS[page.status]
+        )
+      )
+    ),
+    started.length > PAGE_LIST_LIMIT &&
+      React.createElement("div", { style: { opacity: 0.6 } }, `仅显示最近 ${PAGE_LIST_LIMIT} 个页面`)
+  );
+
+  const logList = React.createElement(
+    "div",
+    { style: { ...listStyle, maxHeight: "260px", userSelect: "text" as const } },
+    log.length === 0
+      ? React.createElement("div", { style: { opacity: 0.6 } }, "没有警告或错误。")
+      : log.map((entry, i) =>
+          React.createElement(
+            "div",
+            { key: i, style: { padding: "2px 0", color: LOG_LEVEL_COLORS[entry.level] } },
+            `${entry.page ? `${entry.page}${entry.line ? `:${entry.line}` : ""} — ` : ""}${entry.message}`
+          )
+        )
+  );
+
+  const buttons = state.finished
+    ? [
+        React.createElement(
+          // @ts-ignore
+          orca.components.Button,
+          { key: "copy", variant: "outline", onClick: copyLog },
+          "复制日志"
+        ),
+        React.createElement(
+          // @ts-ignore
+          orca.components.Button,
+          { key: "save", variant: "outline", onClick: () => onSaveLog(log) },
+          "保存日志"
+        ),
+        React.createElement(
+          // @ts-ignore
+          orca.components.Button,
+          { key: "close", variant: "solid", onClick: onClose },
+          "关闭"
+        ),
+      ]
+    : [
+        React.createElement(
+          // @ts-ignore
+          orca.components.Button,
+          {
+            key: "cancel",
+            variant: "dangerous",
+            onClick: state.cancelled ? undefined : () => progress.cancel(),
+            style: { opacity: state.cancelled ? 0.5 : 1 },
+          },
+          state.cancelled ? "正在取消..." : "取消导入"
+        ),
+      ];
+
+  return React.createElement(
+    // @ts-ignore
+    orca.components.ModalOverlay,
+    { visible: true, canClose: state.finished, onClose: onClose },
+    React.createElement(
+      "div",
+      { style: { padding: "20px", background: "var(--orca-color-bg-base)", borderRadius: "8px", width: "560px", textAlign: "left" as const } },
+      React.createElement("h2", null, state.finished ? "Logseq 导入结果" : "正在导入 Logseq 笔记"),
+      React.createElement("p", { style: { margin: "12px 0" } }, state.stage),
+      React.createElement(
+        "div",
+        { style: { height: "8px", borderRadius: "4px", background: "var(--orca-color-bg-2)", overflow: "hidden", marginBottom: "6px" } },
+        React.createElement("div", {
+          style: { width: `${percent}%`, height: "100%", background: "var(--orca-color-primary-5)", transition: "width 0.2s" },
+        })
+      ),
+      React.createElement(
+        "div",
+        { style: { fontSize: "13px", marginBottom: "12px", opacity: 0.8 } },
+        `${done} / ${pages.length} 个页面${summary ? ` (${summary})` : ""}`
+      ),
+      started.length > 0 && pageList,
+      state.finished && React.createElement("h3", { style: { margin: "12px 0 8px" } }, `导入日志 (${log.length})`),
+      state.finished && logList,
+      React.createElement("div", { style: { display: "flex", justifyContent: "flex-end", gap: "8px" } }, ...buttons)
+    )
+  );
+}